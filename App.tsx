@@ -1,19 +1,37 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { Card, ClockSegment, Player, GamePhase, ClockDefinition, CardType } from './types';
-import { CLOCK_DEFINITIONS, TOTAL_SEGMENTS } from './constants';
-import { createDeck, dealCards, validateClock, findBestBotMove } from './utils/gameUtils';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Player, GamePhase, GameState, GameAction, CardType, Seat, DealMode, DealSpec, BotLevel } from './types';
+import { SUPPORTED_PLAYER_COUNTS, TOTAL_SEGMENTS, getClockDefinition, getClocksByChapter } from './constants';
+import { chooseBotMove } from './utils/bot';
+import { encodeDealCode, parseDealCode, pickDeal, seededDecks } from './utils/dealing';
+import { createRng, deriveSeed, randomSeed } from './utils/random';
+import { createLobbyState, reduce, isResolutionComplete, validateMove, getFaceUpLimit, getTakeBackVoters } from './utils/gameEngine';
+import { solveDeal, handsFromClock } from './utils/solver';
+import { ClientMessage, RosterMember, SeatRole, decodeClientMessage, decodeHostMessage, electHost, sendMessage } from './utils/protocol';
+import { loadCampaign, saveCampaign, recordMatch, isClockUnlocked, isClockBeaten, getNextCampaignClock } from './utils/campaign';
+import { createTransport, getTransportConfig, getTransportQuery } from './utils/network';
+import { LogEntry, projectState, rebuildState } from './utils/projection';
+import { createMatchSync } from './utils/sync';
+import { SeedShare, combineShares, splitSeed } from './utils/escrow';
+import type { Transport, TransportConnection } from './utils/transport';
+import { SavedReplay, describeEntry, loadLastReplay, saveLastReplay } from './utils/replay';
 import Clock from './components/Clock';
 import CardComponent from './components/CardComponent';
-
-enum ExtendedGamePhase {
-  LOBBY = 'LOBBY',
-  SETUP = 'SETUP',
-  START_PLAYER_SELECTION = 'START_PLAYER_SELECTION',
-  PLACEMENT = 'PLACEMENT',
-  RESOLUTION = 'RESOLUTION'
-}
-
-declare const Peer: any;
+import ReplayViewer from './components/ReplayViewer';
+import { THEMES, ThemeContext, ThemeId, cardPalette, loadThemeId, saveThemeId } from './utils/theme';
+import {
+  I18nContext, LOCALES, Locale, Phrase, createTranslator, formatPhrase, loadLocale, localizeClock, movePhrase, saveLocale, systemPhrase
+} from './utils/i18n';
+
+// How long after a player disconnects a bot stands in for them
+const STAND_IN_DELAY_MS = 30000;
+// Solutions counted when looking back at a lost deal
+const DEFEAT_SOLUTION_CAP = 1000;
+// Attempts (2 s apart) to reach a host that dropped before electing a new one; a reload is usually back by then
+const HOST_GRACE_RETRIES = 3;
+// A retried connection that has not opened by then counts as failed
+const CONNECT_TIMEOUT_MS = 3000;
+// How long a new host waits for enough seed shares before giving the match up
+const RECOVERY_TIMEOUT_MS = 30000;
 
 const App: React.FC = () => {
   // --- Persistent Identity ---
@@ -25,100 +43,123 @@ const App: React.FC = () => {
       return newId;
   });
   
-  const [myName, setMyName] = useState(() => localStorage.getItem('tt_playerName') || 'Player ' + Math.floor(Math.random() * 100));
-  useEffect(() => { localStorage.setItem('tt_playerName', myName); }, [myName]);
+  const [locale, setLocale] = useState<Locale>(loadLocale);
+  useEffect(() => { saveLocale(locale); document.documentElement.lang = locale; }, [locale]);
+  const i18n = useMemo(() => ({ locale, t: createTranslator(locale) }), [locale]);
+  const { t } = i18n;
 
-  // --- Game State (UI) ---
-  const [phase, setPhase] = useState<ExtendedGamePhase | GamePhase>(ExtendedGamePhase.LOBBY);
-  const [activeClockDef, setActiveClockDef] = useState<ClockDefinition>(CLOCK_DEFINITIONS[0]);
-  const [clockSegments, setClockSegments] = useState<ClockSegment[]>([]);
-  const [players, setPlayers] = useState<Player[]>([]);
-  const [currentPlayerIndex, setCurrentPlayerIndex] = useState(0); 
-  const [faceUpTokensUsed, setFaceUpTokensUsed] = useState(0);
-  const [cardsPlayedCount, setCardsPlayedCount] = useState(0);
-  
-  // Shared Feedback (System Messages like "Victory", "Edge Starts")
-  const [systemMessage, setSystemMessage] = useState<string>("");
+  const [myName, setMyName] = useState(() => localStorage.getItem('tt_playerName') || t('seat.player', { n: Math.floor(Math.random() * 100) }));
+  useEffect(() => { localStorage.setItem('tt_playerName', myName); }, [myName]);
+  const [themeId, setThemeId] = useState<ThemeId>(loadThemeId);
+  useEffect(() => { saveThemeId(themeId); }, [themeId]);
+  const theme = THEMES[themeId];
+  const [confirmMoves, setConfirmMoves] = useState(() => localStorage.getItem('tt_confirmMoves') === '1');
+  useEffect(() => { localStorage.setItem('tt_confirmMoves', confirmMoves ? '1' : '0'); }, [confirmMoves]);
+
+  // --- Campaign Progress ---
+  const [campaign, setCampaign] = useState(() => loadCampaign(myPlayerId));
+
+  // --- Game State (UI mirror of the engine state) ---
+  const [game, setGame] = useState<GameState>(createLobbyState);
+  const {
+      phase, clockSegments, players, currentPlayerIndex, faceUpTokensUsed,
+      cardsPlayedCount, resolutionStep, resolutionResults, systemMessage, lastPlay, takeBack
+  } = game;
+  const activeClockDef = game.clock;
 
   // Local Interaction
   const [selectedCardId, setSelectedCardId] = useState<string | null>(null);
   const [playFaceUp, setPlayFaceUp] = useState(false);
-  const [feedback, setFeedback] = useState<string>(""); // Local transient feedback (e.g. "Invalid Move")
+  const [pendingSegment, setPendingSegment] = useState<number | null>(null); // Slot awaiting confirmation
+  const [announcement, setAnnouncement] = useState(""); // Screen reader live region
+  useEffect(() => { setPendingSegment(null); }, [selectedCardId, currentPlayerIndex, phase]);
+  const [feedback, setFeedback] = useState<Phrase | null>(null); // Local transient feedback (e.g. "Invalid Move"), worded at render
+  const [showSolution, setShowSolution] = useState(false);
+  const [replay, setReplay] = useState<SavedReplay | null>(null); // Open in the replay viewer
+  const [lastReplay, setLastReplay] = useState(loadLastReplay);
 
   // Networking
-  const [peer, setPeer] = useState<any>(null);
+  const [transportConfig] = useState(() => getTransportConfig(window.location.search, window.location.hostname));
+  const [transport, setTransport] = useState<Transport | null>(null);
   const [myPeerId, setMyPeerId] = useState<string>(""); 
-  const [conn, setConn] = useState<any>(null); // Client: Connection to Host
+  const [conn, setConn] = useState<TransportConnection | null>(null); // Client: Connection to Host
   const [isHost, setIsHost] = useState(false);
   const [targetLobbyId, setTargetLobbyId] = useState<string>(""); 
-  const [connectedPeersList, setConnectedPeersList] = useState<{id: string, name: string}[]>([]); 
+  const [connectedPeersList, setConnectedPeersList] = useState<{id: string, name: string, role: SeatRole}[]>([]); 
+  const [roster, setRoster] = useState<RosterMember[]>([]); // Client: lobby members as announced by the host
   const [playerCountSetting, setPlayerCountSetting] = useState(3);
+  const [dealMode, setDealMode] = useState<DealMode>('RANDOM');
+  const [dealCodeInput, setDealCodeInput] = useState("");
+  const [botLevels, setBotLevels] = useState<{ [seatIndex: number]: BotLevel }>({});
+  const [standInEnabled, setStandInEnabled] = useState(true);
+  const [allowTakeBacks, setAllowTakeBacks] = useState(true);
+  const [hotseatNames, setHotseatNames] = useState<string[]>([]); // Extra humans sharing this device
+  const [revealedFor, setRevealedFor] = useState<string | null>(null); // Hotseat: whose hand is showing
 
   // Refs (Source of Truth for Host Logic)
-  const peerConnectionsRef = useRef<{ [playerId: string]: any }>({}); 
-  const gameStateRef = useRef<any>(null);
-
-  // Resolution
-  const [resolutionStep, setResolutionStep] = useState<number>(-1); 
-  const [resolutionResults, setResolutionResults] = useState<{index: number, passed: boolean, message?: string}[]>([]);
+  const peerConnectionsRef = useRef<{ [playerId: string]: TransportConnection }>({}); 
+  // Engine state, public log and sequence number, kept in step between host and clients
+  const [sync] = useState(() => createMatchSync({ connections: () => peerConnectionsRef.current, onState: setGame }));
+  // Connected clients (host: maintained, client: as last announced); used to pick a new host
+  const rosterRef = useRef<RosterMember[]>([]);
+  const hostConnRef = useRef<TransportConnection | null>(null); // Client: the live host connection
+  const joinRoleRef = useRef<SeatRole>('PLAYER'); // Client: what we asked to join as
+  const playerCountRef = useRef(playerCountSetting); // Host: read by connection handlers bound at mount
+  playerCountRef.current = playerCountSetting;
+  const hotseatNamesRef = useRef(hotseatNames);
+  hotseatNamesRef.current = hotseatNames;
+  const standInRef = useRef(standInEnabled);
+  standInRef.current = standInEnabled;
+  const awayTimersRef = useRef<{ [playerId: string]: ReturnType<typeof setTimeout> }>({});
+  // Client: our share of the deal seed. New host: shares collected so far while recovering.
+  const escrowRef = useRef<SeedShare | null>(null);
+  const recoveryRef = useRef<SeedShare[] | null>(null);
+  const recoveryTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  const [recovering, setRecovering] = useState(false);
 
   // --- State Persistence & Synchronization ---
 
-  // 1. Sync React State to Ref (Host uses this as Truth)
+  // 1. Host: Save to LocalStorage
   useEffect(() => {
-      gameStateRef.current = {
-          phase,
-          activeClockDef,
-          clockSegments,
-          players,
-          currentPlayerIndex,
-          faceUpTokensUsed,
-          cardsPlayedCount,
-          clockDefId: activeClockDef?.id,
-          resolutionStep,
-          resolutionResults,
-          systemMessage // Ensure this is tracked
-      };
-
-      // Host: Save to LocalStorage
-      if (isHost && phase !== ExtendedGamePhase.LOBBY) {
-           try {
-              const stateToSave = sanitizeStateForNetwork(gameStateRef.current);
-              localStorage.setItem('tt_gameState', JSON.stringify(stateToSave));
+      if (isHost && !recovering && game.phase !== GamePhase.LOBBY) {
+          try {
+              localStorage.setItem('tt_gameState', JSON.stringify({ ...game, log: sync.log }));
           } catch (e) {
               console.error("Save failed", e);
           }
       }
-  }, [phase, activeClockDef, clockSegments, players, currentPlayerIndex, faceUpTokensUsed, cardsPlayedCount, resolutionStep, resolutionResults, isHost, systemMessage]);
+  }, [game, isHost, recovering]);
+
+  // 2. Campaign: record each finished match once
+  useEffect(() => {
+      if (!game.outcome) return;
+      const updated = recordMatch(campaign, game);
+      if (updated !== campaign) {
+          setCampaign(updated);
+          saveCampaign(updated);
+      }
+      // The seed is public now, so the log replays the whole match
+      const finished = { seed: game.seed, log: sync.log };
+      saveLastReplay(finished);
+      setLastReplay(finished);
+  }, [game.outcome, game.matchId]);
 
-  // 2. Host Recovery on Mount
+  // 3. Host Recovery on Mount
   useEffect(() => {
       const savedState = localStorage.getItem('tt_gameState');
       if (savedState) {
           try {
-              const parsed = JSON.parse(savedState);
-              if (parsed.phase && parsed.phase !== ExtendedGamePhase.LOBBY) {
+              const { log, ...parsed } = JSON.parse(savedState);
+              if (parsed.phase && parsed.phase !== GamePhase.LOBBY) {
                   console.log("Restoring Game State...");
                   setIsHost(true); 
-                  setPhase(parsed.phase);
-                  setClockSegments(parsed.clockSegments);
-                  setPlayers(parsed.players);
-                  setCurrentPlayerIndex(parsed.currentPlayerIndex);
-                  setFaceUpTokensUsed(parsed.faceUpTokensUsed || 0);
-                  setCardsPlayedCount(parsed.cardsPlayedCount || 0);
-                  setSystemMessage(parsed.systemMessage || "");
-                  
-                  if (parsed.clockDefId) {
-                      const def = CLOCK_DEFINITIONS.find(c => c.id === parsed.clockDefId);
-                      if (def) setActiveClockDef(def);
-                  }
-
-                  if (parsed.phase === ExtendedGamePhase.RESOLUTION) {
-                      setResolutionStep(parsed.resolutionStep);
-                      setResolutionResults(parsed.resolutionResults || []);
-                  }
-                  
-                  setFeedback("Session Restored. Waiting for players...");
+                  // Saves from before clocks were plain data only carry the id
+                  const clock = parsed.clock || getClockDefinition(parsed.clockDefId);
+                  // ...and saves from before messages were codes carry English text
+                  const systemMessage = typeof parsed.systemMessage === 'string' ? null : parsed.systemMessage;
+                  sync.replace({ ...createLobbyState(), ...parsed, clock, systemMessage }, log || []);
+                  syncPresence(); // Nobody is connected yet
+                  setFeedback({ key: 'feedback.sessionRestored' });
               }
           } catch (e) {
               console.error("Failed to restore state", e);
@@ -126,6 +167,21 @@ const App: React.FC = () => {
       }
   }, []);
 
+  // Nothing of the last match may leak into the next: not its log (see utils/sync), not its seed shares
+  const clearMatchRefs = () => {
+      escrowRef.current = null;
+      recoveryRef.current = null;
+      clearTimeout(recoveryTimerRef.current);
+      setRecovering(false);
+  };
+
+  // Host: run an action through the engine and publish the result
+  const dispatch = (action: GameAction) => {
+      if (!sync.dispatch(action)) return;
+      if (action.type === 'Reset') clearMatchRefs();
+      if (action.type === 'Deal') distributeEscrow();
+  };
+
   // --- Networking Initialization ---
 
   // Handle URL Params
@@ -138,361 +194,519 @@ const App: React.FC = () => {
     }
   }, []);
 
-  // Initialize PeerJS
+  // Initialize the transport (PeerJS unless the URL asks for the relay)
   useEffect(() => {
-    if (typeof Peer !== 'undefined') {
-        const desiredId = `tt-${myPlayerId}`;
+    const desiredId = `tt-${myPlayerId}`;
+    let current: Transport | null = null;
+
+    const initTransport = (id: string | null) => {
+        try {
+            current = createTransport(transportConfig, id);
+        } catch (e) {
+            console.error("Transport unavailable", e);
+            setFeedback({ key: 'feedback.networkUnavailable' });
+            return;
+        }
+        const newTransport = current;
+
+        newTransport.on('open', (assignedId: string) => {
+            console.log('Peer ID Open:', assignedId);
+            setMyPeerId(assignedId);
+        });
         
-        const initPeer = (id: string | null) => {
-            const newPeer = new Peer(id, { debug: 1 });
-            
-            newPeer.on('open', (assignedId: string) => {
-                console.log('Peer ID Open:', assignedId);
-                setMyPeerId(assignedId);
-            });
-            
-            newPeer.on('connection', (connection: any) => {
-                handleHostConnection(connection);
-            });
-            
-            newPeer.on('error', (err: any) => {
-                console.warn("Peer Error:", err.type);
-                if (err.type === 'unavailable-id') {
-                    initPeer(null);
-                } else {
-                    setFeedback("Network Error: " + err.type);
-                }
-            });
-            setPeer(newPeer);
-        };
+        newTransport.on('connection', (connection: TransportConnection) => {
+            handleHostConnection(connection);
+        });
+        
+        newTransport.on('error', (err) => {
+            console.warn("Peer Error:", err.type, err.message || '');
+            if (err.type === 'unavailable-id') {
+                newTransport.destroy();
+                initTransport(null);
+            } else {
+                setFeedback({ key: 'feedback.networkError', params: { type: err.type } });
+            }
+        });
+        setTransport(newTransport);
+    };
 
-        initPeer(desiredId);
-    }
+    initTransport(desiredId);
     return () => {
-        if (peer) peer.destroy();
+        if (current) current.destroy();
     };
   }, []); 
 
   // --- Host Logic ---
 
-  const handleHostConnection = (connection: any) => {
+  const handleHostConnection = (connection: TransportConnection) => {
+      // Identity is bound on JOIN; later messages act as this player regardless of what they claim
+      let senderId: string | null = null;
+
       connection.on('open', () => {
          console.log("New connection opened");
       });
 
-      connection.on('data', (data: any) => {
+      connection.on('data', (raw: unknown) => {
+          const { message: data, error } = decodeClientMessage(raw);
+          if (error) {
+              console.warn("Refused message:", error.message);
+              sendMessage(connection, { type: 'ERROR', code: error.code, message: error.message });
+              if (error.code === 'INCOMPATIBLE_VERSION') setFeedback({ key: 'feedback.peerVersion' });
+              return;
+          }
+
           if (data.type === 'JOIN') {
               const pid = data.playerId;
               const name = data.name;
               
-              console.log(`Player ${name} (${pid}) joined.`);
+              const currentState = sync.state;
+              // Anyone not seated in a running game watches; in the lobby they pick
+              const isSeated = currentState.players.some((p: Player) => p.id === pid);
+              const role: SeatRole = currentState.phase === GamePhase.LOBBY ? (data.role || 'PLAYER') : (isSeated ? 'PLAYER' : 'SPECTATOR');
+              
+              console.log(`${role === 'PLAYER' ? 'Player' : 'Spectator'} ${name} (${pid}) joined.`);
 
               // Store connection
+              senderId = pid;
               peerConnectionsRef.current[pid] = connection;
+              rosterRef.current = [...rosterRef.current.filter(m => m.playerId !== pid), { playerId: pid, peerId: connection.peer, name, role }];
 
               // Update UI List
               setConnectedPeersList(prev => {
                   const filtered = prev.filter(p => p.id !== pid);
-                  return [...filtered, { id: pid, name }];
+                  return [...filtered, { id: pid, name, role }];
               });
 
               // RECONNECT logic
-              const currentState = gameStateRef.current;
-              if (currentState && currentState.phase !== ExtendedGamePhase.LOBBY) {
-                  const existingPlayer = currentState.players.find((p: Player) => p.id === pid);
-                  if (existingPlayer) {
-                      setFeedback(`${name} reconnected!`);
-                      const safeState = sanitizeStateForNetwork(currentState);
-                      connection.send({ type: 'STATE_UPDATE', state: safeState });
+              if (recoveryRef.current) {
+                  // We only hold our own view until enough seed shares are back
+                  if (data.escrow) recoveryRef.current = [...recoveryRef.current, data.escrow];
+                  setFeedback({ key: 'feedback.rejoined', params: { name } });
+                  tryRecover();
+              } else if (currentState.phase !== GamePhase.LOBBY) {
+                  if (isSeated) {
+                      setFeedback({ key: 'feedback.reconnected', params: { name } });
+                      sync.sendSnapshot(connection, pid);
+                      markBack(pid);
+                      distributeEscrow();
                   } else {
-                       connection.send({ type: 'ERROR', message: "Game already in progress." });
+                      setFeedback({ key: 'feedback.watching', params: { name } });
+                      sync.sendSnapshot(connection, pid); // Not seated, so the projection holds no hand
                   }
               } else {
-                  setFeedback(`${name} joined lobby.`);
+                  setFeedback({ key: 'feedback.joinedLobby', params: { name } });
+                  sync.sendSnapshot(connection, pid); // Lines up the client's sequence number before the deal
               }
-          } else {
-              handleIncomingDataHost(data);
+              broadcastRoster();
+          } else if (senderId) {
+              handleIncomingDataHost(data, connection, senderId);
           }
       });
       
       connection.on('close', () => {
           console.log("Connection closed");
+          // A reconnect may already have replaced this connection
+          if (!senderId || peerConnectionsRef.current[senderId] !== connection) return;
+          delete peerConnectionsRef.current[senderId];
+          sync.forget(senderId);
+          rosterRef.current = rosterRef.current.filter(m => m.playerId !== senderId);
+          broadcastRoster();
+          if (recoveryRef.current) return;
+          markAway(senderId);
+          distributeEscrow(); // The leaver's share is gone
       });
   };
 
-  const sanitizeStateForNetwork = (fullState: any) => {
-      const { activeClockDef, ...rest } = fullState;
-      try {
-          return JSON.parse(JSON.stringify(rest));
-      } catch (e) {
-          console.error("State Serialization Failed!", e);
-          return rest; 
+  // --- Presence (Host) ---
+
+  // A seated human lost their connection: flag the seat, and optionally let a bot
+  // take their turns once they have been gone for a while
+  const markAway = (pid: string) => {
+      const state = sync.state;
+      const player = state.players.find(p => p.id === pid);
+      if (!player || player.away || state.phase === GamePhase.LOBBY || state.outcome) return;
+      dispatch({ type: 'SetPresence', playerId: pid, away: true });
+      if (!standInRef.current) return;
+
+      clearTimeout(awayTimersRef.current[pid]);
+      awayTimersRef.current[pid] = setTimeout(() => {
+          delete awayTimersRef.current[pid];
+          const current = sync.state.players.find(p => p.id === pid);
+          if (current?.away && !current.standIn) {
+              dispatch({ type: 'SetPresence', playerId: pid, away: true, standIn: 'NORMAL' });
+          }
+      }, STAND_IN_DELAY_MS);
+  };
+
+  // Same tt_playerId is back: the seat is theirs again
+  const markBack = (pid: string) => {
+      clearTimeout(awayTimersRef.current[pid]);
+      delete awayTimersRef.current[pid];
+      if (sync.state.players.find(p => p.id === pid)?.away) {
+          dispatch({ type: 'SetPresence', playerId: pid, away: false });
       }
   };
 
-  const broadcastState = (statePayload: any) => {
-      const safeState = sanitizeStateForNetwork(statePayload);
-      
-      let sentCount = 0;
-      Object.values(peerConnectionsRef.current).forEach((conn: any) => {
-          if (conn && conn.open) {
-              conn.send({ type: 'STATE_UPDATE', state: safeState });
-              sentCount++;
-          }
+  // After a reload or a migration: line the seats up with who is actually connected
+  const syncPresence = () => {
+      sync.state.players
+          .filter(p => !p.id.startsWith('bot') && !p.isLocal)
+          .forEach(p => (peerConnectionsRef.current[p.id] ? markBack(p.id) : markAway(p.id)));
+  };
+
+  const setPeerRole = (pid: string, role: SeatRole) => {
+      rosterRef.current = rosterRef.current.map(m => (m.playerId === pid ? { ...m, role } : m));
+      setConnectedPeersList(prev => prev.map(p => (p.id === pid ? { ...p, role } : p)));
+      broadcastRoster();
+  };
+
+  const broadcastRoster = () => {
+      Object.values(peerConnectionsRef.current).forEach((conn: TransportConnection) => {
+          if (conn && conn.open) sendMessage(conn, { type: 'ROSTER', members: rosterRef.current });
       });
-      if (sentCount > 0) {
-        console.log(`Broadcasted state to ${sentCount} peers. Phase: ${statePayload.phase}`);
+  };
+
+  // Re-splits the seed across the clients connected right now (see utils/escrow)
+  const distributeEscrow = () => {
+      const state = sync.state;
+      if (state.phase === GamePhase.LOBBY || state.outcome) return;
+      const holders = Object.entries(peerConnectionsRef.current)
+          .filter(([pid, conn]: [string, TransportConnection]) => conn && conn.open && state.players.some(p => p.id === pid));
+      if (holders.length === 0) return;
+      const shares = splitSeed(state.matchId, state.seed, holders.length);
+      holders.forEach(([, conn]: [string, TransportConnection], i) => sendMessage(conn, { type: 'ESCROW', share: shares[i] }));
+  };
+
+  // New host: once enough shares are back, rebuild the full state from the seed and the public log
+  const tryRecover = () => {
+      const seed = combineShares(recoveryRef.current || []);
+      if (seed === null) return;
+      const state = rebuildState(seed, sync.log);
+      if (state.matchId !== sync.state.matchId) {
+          console.error("Recovered state does not match this game.");
+          setFeedback({ key: 'feedback.recoverFailed' });
+          return;
       }
+      console.log(`Recovered game at #${sync.seq}.`);
+      recoveryRef.current = null;
+      clearTimeout(recoveryTimerRef.current);
+      setRecovering(false);
+      // isLocal came from the old host's Deal; only this device's seat is local now
+      sync.replace({ ...state, players: state.players.map(p => ({ ...p, isLocal: p.id === myPlayerId })) });
+      Object.entries(peerConnectionsRef.current).forEach(([pid, conn]: [string, TransportConnection]) => {
+          if (conn && conn.open) sync.sendSnapshot(conn, pid);
+      });
+      syncPresence(); // The old host's seats are away now
+      distributeEscrow();
+      setFeedback({ key: 'feedback.recovered' });
   };
 
-  const handleIncomingDataHost = (data: any) => {
-      const current = gameStateRef.current;
-      if (!current) return;
+  // Too few share holders came back, so the seed and with it the match are gone.
+  // Everyone still here is told, and the table starts over in the new host's lobby.
+  const abandonRecovery = () => {
+      const shares = recoveryRef.current;
+      if (!shares) return;
+      console.warn(`Gave up recovering with ${shares.length} of ${shares[0].threshold} seed shares.`);
+      dispatch({ type: 'Reset' });
+      Object.values(peerConnectionsRef.current).forEach((conn: TransportConnection) => {
+          if (conn && conn.open) sendMessage(conn, { type: 'ERROR', code: 'RECOVERY_FAILED', message: 'Too few seed shares came back.' });
+      });
+      setFeedback({ key: 'error.RECOVERY_FAILED' });
+  };
 
+  const handleIncomingDataHost = (data: ClientMessage, connection: TransportConnection, senderId: string) => {
       if (data.type === 'MOVE') {
-          executePlayCard(data.playerId, data.card, data.segmentIndex, data.faceUp);
+          const action: GameAction = { type: 'PlayCard', playerId: senderId, cardId: data.cardId, segmentIndex: data.segmentIndex, faceUp: data.faceUp };
+          const check = validateMove(sync.state, action);
+          if (!check.passed) {
+              console.warn(`Rejected move from ${senderId}: ${check.reason}`);
+              sendMessage(connection, {
+                  type: 'MOVE_REJECTED', cardId: data.cardId, reason: check.reason,
+                  ...(check.code && { code: check.code, params: check.params }),
+              });
+              return;
+          }
+          dispatch(action);
       }
       if (data.type === 'CLAIM_START') {
-          const currentPlayers = current.players;
-          const pIdx = currentPlayers.findIndex((p: Player) => p.id === data.playerId);
-          if (pIdx !== -1) {
-              startGamePhase(pIdx);
+          startGamePhase(senderId);
+      }
+      if (data.type === 'TAKE_BACK') {
+          dispatch({ type: 'RequestTakeBack', playerId: senderId });
+      }
+      if (data.type === 'TAKE_BACK_VOTE') {
+          dispatch({ type: 'VoteTakeBack', playerId: senderId, accept: data.accept });
+      }
+      if (data.type === 'TAKE_SEAT') {
+          const state = sync.state;
+          const betweenGames = state.phase === GamePhase.LOBBY || state.outcome !== null;
+          // Every seat initGame fills before the bots: this device, its hotseat players, seated peers
+          const seatedPeers = rosterRef.current.filter(m => m.role === 'PLAYER').length;
+          const takenSeats = 1 + hotseatNamesRef.current.length + seatedPeers;
+          if (!betweenGames || takenSeats >= playerCountRef.current) {
+              sendMessage(connection, betweenGames
+                  ? { type: 'ERROR', code: 'NO_FREE_SEAT', message: "No bot seat is free." }
+                  : { type: 'ERROR', code: 'SEATS_LOCKED', message: "Seats can only change between games." });
+              return;
           }
+          setPeerRole(senderId, 'PLAYER');
+          setFeedback({ key: 'feedback.takesSeat', params: { name: rosterRef.current.find(m => m.playerId === senderId)?.name } });
+      }
+      if (data.type === 'RESYNC' && !recoveryRef.current) {
+          console.log(`Resync requested by ${senderId}`);
+          sync.sendSnapshot(connection, senderId);
       }
   };
 
   // --- Client Logic ---
 
-  const connectToHost = (hostId: string) => {
-      if (!peer) return;
-      if (!hostId) { setFeedback("Enter Code"); return; }
+  // `retries` is only used while the host is away, when it (or the new host) may
+  // need a moment; `onGiveUp` replaces the failure message once they are spent
+  const connectToHost = (hostId: string, retries: number = 0, onGiveUp?: () => void) => {
+      if (!transport) return;
+      if (!hostId) { setFeedback({ key: 'feedback.enterCode' }); return; }
       
-      setFeedback("Connecting...");
-      if (conn) conn.close();
-
-      const connection = peer.connect(hostId);
+      setFeedback({ key: 'feedback.connecting' });
+      const previous = hostConnRef.current;
+      const connection = transport.connect(hostId);
+      hostConnRef.current = connection;
+      if (previous) previous.close();
       
       connection.on('open', () => {
+          if (hostConnRef.current !== connection) { connection.close(); return; } // Gave up on it already
           setConn(connection);
           setIsHost(false);
-          setFeedback("Connected! Waiting...");
-          connection.send({ type: 'JOIN', name: myName, playerId: myPlayerId });
+          setFeedback({ key: 'feedback.connected' });
+          // Our seed share, in case this is a new host rebuilding the game
+          const escrow = escrowRef.current && escrowRef.current.matchId === sync.state.matchId ? escrowRef.current : undefined;
+          sendMessage(connection, { type: 'JOIN', name: myName, playerId: myPlayerId, role: joinRoleRef.current, escrow });
       });
       
-      connection.on('data', (data: any) => {
-          if (data.type === 'STATE_UPDATE') {
-              console.log("Received State Update. Phase:", data.state.phase);
-              applyRemoteState(data.state);
+      connection.on('data', (raw: unknown) => {
+          const { message: data, error } = decodeHostMessage(raw);
+          if (error) {
+              console.warn("Refused message from host:", error.message);
+              setFeedback({ key: `error.${error.code}` });
+              return;
+          }
+
+          if (data.type === 'PATCH') {
+              if (!sync.applyPatch(data, connection)) return;
+              if (data.entry.action.type === 'Reset') clearMatchRefs();
+              setFeedback(null); // Clears "Sending..."
+          } else if (data.type === 'SNAPSHOT') {
+              console.log(`Received snapshot #${data.seq}. Phase:`, data.state.phase);
+              sync.applySnapshot(data);
+              setFeedback(null);
+          } else if (data.type === 'ESCROW') {
+              escrowRef.current = data.share;
+          } else if (data.type === 'MOVE_REJECTED') {
+              // Roll back the optimistic "Sending..." state and hand the card back to the picker
+              setFeedback({ key: 'feedback.rejected', params: { reason: movePhrase(data) } });
+              setSelectedCardId(data.cardId);
           } else if (data.type === 'ERROR') {
-              setFeedback(data.message);
-          } else if (data.type === 'RESET') {
-              resetGameLocal();
+              console.warn("Host error:", data.message);
+              setFeedback({ key: `error.${data.code}` });
+          } else if (data.type === 'ROSTER') {
+              rosterRef.current = data.members;
+              setRoster(data.members);
+              // The host may have seated us since we joined
+              const me = data.members.find(m => m.playerId === myPlayerId);
+              if (me) joinRoleRef.current = me.role;
           }
       });
       
-      connection.on('error', (err: any) => setFeedback("Connect Failed"));
-      connection.on('close', () => setFeedback("Disconnected"));
+      let failed = false;
+      const fail = () => {
+          if (failed || hostConnRef.current !== connection) return;
+          failed = true;
+          if (retries > 0) {
+              setTimeout(() => connectToHost(hostId, retries - 1, onGiveUp), 2000);
+          } else if (onGiveUp) {
+              hostConnRef.current = null;
+              onGiveUp();
+          } else {
+              setFeedback({ key: 'feedback.connectFailed' });
+          }
+      };
+      connection.on('error', fail);
+      // PeerJS reports an unreachable peer on the transport, not the connection
+      if (retries > 0 || onGiveUp) {
+          setTimeout(() => { if (!connection.open) fail(); }, CONNECT_TIMEOUT_MS);
+      }
+      connection.on('close', () => {
+          if (hostConnRef.current !== connection) return; // We hung up ourselves
+          hostConnRef.current = null;
+          setConn(null);
+          handleHostLost(hostId);
+      });
   };
 
-  const applyRemoteState = (s: any) => {
-      setPhase(s.phase);
-      setPlayers(s.players);
-      setClockSegments(s.clockSegments);
-      setCurrentPlayerIndex(s.currentPlayerIndex);
-      setFaceUpTokensUsed(s.faceUpTokensUsed);
-      setCardsPlayedCount(s.cardsPlayedCount);
-      setSystemMessage(s.systemMessage || ""); // Sync system message
-      
-      if (s.clockDefId) {
-          const def = CLOCK_DEFINITIONS.find(c => c.id === s.clockDefId);
-          if (def) setActiveClockDef(def);
+  // A host that only reloaded comes back under the same id with its saved game,
+  // so it gets a short grace period before anyone takes over; otherwise the
+  // table would end up with two hosts.
+  const handleHostLost = (hostId: string) => {
+      if (sync.state.phase === GamePhase.LOBBY) {
+          setFeedback({ key: 'feedback.disconnected' });
+          return;
       }
-      
-      if (s.phase === ExtendedGamePhase.RESOLUTION) {
-          setResolutionStep(s.resolutionStep || -1);
-          setResolutionResults(s.resolutionResults || []);
+      connectToHost(hostId, HOST_GRACE_RETRIES, migrateHost);
+      setFeedback({ key: 'feedback.hostReturning' });
+  };
+
+  // Host migration. Every client agrees on the successor from the roster. The
+  // successor only has its own view, so it rebuilds the full state from the
+  // public log once enough of the others rejoin with their seed shares, then continues
+  // from the last sequence number it applied.
+  const migrateHost = () => {
+      const successor = electHost(rosterRef.current.filter(m => sync.state.players.some(p => p.id === m.playerId)));
+      if (!successor) {
+          setFeedback({ key: 'feedback.hostLeft' });
+          return;
+      }
+      if (successor.playerId === myPlayerId) {
+          const share = escrowRef.current;
+          if (!share || share.matchId !== sync.state.matchId) {
+              setFeedback({ key: 'feedback.hostLeft' });
+              return;
+          }
+          rosterRef.current = [];
+          peerConnectionsRef.current = {};
+          sync.forget();
+          recoveryRef.current = [share];
+          recoveryTimerRef.current = setTimeout(abandonRecovery, RECOVERY_TIMEOUT_MS);
+          setRecovering(true);
+          setConnectedPeersList([]);
+          setIsHost(true);
+          setFeedback({ key: 'feedback.hostLeftWaiting' });
+          tryRecover(); // A small table's share is the whole seed
+      } else {
+          setFeedback({ key: 'feedback.hostLeftReconnecting', params: { name: successor.name } });
+          connectToHost(successor.peerId, 3);
       }
-      setFeedback(""); // Clears "Sending..."
   };
 
   // --- Game Actions (Host) ---
 
+  // Both go through the log like any other action, so a client that joins or
+  // resyncs later gets the lobby and an empty log rather than the old match
   const abortGame = () => {
-      if (window.confirm("Abort current game?")) {
+      if (window.confirm(t('game.abortConfirm'))) {
           localStorage.removeItem('tt_gameState');
-          const lobbyState = {
-              phase: ExtendedGamePhase.LOBBY,
-              players: [],
-              clockSegments: [],
-              currentPlayerIndex: 0,
-              faceUpTokensUsed: 0,
-              cardsPlayedCount: 0,
-              systemMessage: ""
-          };
-          gameStateRef.current = lobbyState;
-          resetGameLocal();
-          
-          Object.values(peerConnectionsRef.current).forEach((conn: any) => {
-              if (conn && conn.open) conn.send({ type: 'RESET' });
-          });
+          dispatch({ type: 'Reset' });
       }
   };
 
-  const forceSync = () => {
-      if(gameStateRef.current) {
-          console.log("Forcing Sync...");
-          broadcastState(gameStateRef.current);
-          setFeedback("Force Sync Sent");
-          setTimeout(() => setFeedback(""), 1000);
+  // A client only leaves the result screen on its own; the host's next Reset or Deal brings it back in step
+  const returnToLobby = () => {
+      if (!isHost) {
+          clearMatchRefs();
+          sync.replace(reduce(sync.state, { type: 'Reset' }), []);
+          return;
       }
+      localStorage.removeItem('tt_gameState');
+      dispatch({ type: 'Reset' });
   };
 
-  const resetGameLocal = () => {
-      setPhase(ExtendedGamePhase.LOBBY);
-      setClockSegments([]);
-      setPlayers([]);
-      setResolutionStep(-1);
-      setResolutionResults([]);
-      setFaceUpTokensUsed(0);
-      setCardsPlayedCount(0);
-      setConnectedPeersList([]);
-      setSystemMessage("");
-  };
-
-  const initGame = (clockId: string) => {
-      const def = CLOCK_DEFINITIONS.find(c => c.id === clockId) || CLOCK_DEFINITIONS[0];
-      setActiveClockDef(def);
-      
-      const newSegments = Array.from({ length: TOTAL_SEGMENTS }, (_, i) => ({ index: i, cards: [] }));
-      const deck = createDeck();
-      const pCount = playerCountSetting; 
-      const dealtHands = dealCards(deck, pCount);
+  // A deal spec (from a pasted deal code) overrides the lobby settings
+  const initGame = (clockId: string, spec?: DealSpec) => {
+      const def = getClockDefinition(clockId);
+      const pCount = spec ? spec.playerCount : playerCountSetting; 
       
-      const newPlayers: Player[] = [
-          { id: myPlayerId, name: myName, isLocal: true, hand: dealtHands[0] },
+      const seats: Seat[] = [
+          { id: myPlayerId, name: myName, isLocal: true },
       ];
-      
-      let handIndex = 1;
-      connectedPeersList.forEach(p => {
-          if (handIndex < pCount) {
-              newPlayers.push({ id: p.id, name: p.name, isLocal: false, hand: dealtHands[handIndex] });
-              handIndex++;
+      hotseatNames.forEach((name, i) => {
+          if (seats.length < pCount) {
+              seats.push({ id: `local-${i + 1}`, name: name || t('seat.player', { n: i + 2 }), isLocal: true });
           }
       });
-      while (handIndex < pCount) {
-          newPlayers.push({ id: `bot-${handIndex}`, name: `Bot ${handIndex}`, isLocal: false, hand: dealtHands[handIndex] });
-          handIndex++;
+      connectedPeersList.filter(p => p.role === 'PLAYER').forEach(p => {
+          if (seats.length < pCount) {
+              seats.push({ id: p.id, name: p.name, isLocal: false });
+          }
+      });
+      while (seats.length < pCount) {
+          const botIndex = seats.length;
+          seats.push({ id: `bot-${botIndex}`, name: t('seat.bot', { n: botIndex }), isLocal: false, botLevel: botLevels[botIndex] || 'NORMAL' });
       }
 
-      const startPhase = ExtendedGamePhase.START_PLAYER_SELECTION;
-      const initialState = {
-          phase: startPhase,
-          players: newPlayers,
-          clockSegments: newSegments,
-          currentPlayerIndex: 0,
-          faceUpTokensUsed: 0,
-          cardsPlayedCount: 0,
-          activeClockDef: def,
-          clockDefId: def.id,
-          resolutionStep: -1,
-          resolutionResults: [],
-          systemMessage: ""
-      };
+      const matchId = 'match-' + Math.random().toString(36).substr(2, 9);
+      const seed = spec ? spec.seed : randomSeed();
+      const mode = spec ? spec.mode : dealMode;
+      // The search runs here once; the action only names the shuffle it kept
+      const pick = pickDeal(def, seats.length, mode, seededDecks(seed));
+      setSelectedCardId(null);
+      setRevealedFor(null);
+      dispatch({ type: 'Deal', matchId, clock: def, seats, seed, dealMode: mode, shuffle: pick.shuffle, allowTakeBacks });
+      if (pick.fallback) setFeedback({ key: 'feedback.dealFallback', params: { mode: { key: `deal.${mode}` } } });
+  };
 
-      // Set State
-      setPlayers(newPlayers);
-      setClockSegments(newSegments);
-      setFaceUpTokensUsed(0);
-      setCardsPlayedCount(0);
-      setPhase(startPhase);
-      setResolutionStep(-1);
-      setResolutionResults([]);
-      setSystemMessage("");
-
-      gameStateRef.current = initialState;
-      broadcastState(initialState);
+  // Spectator: ask the host for a bot seat in the next game
+  const requestSeat = () => {
+      if (!conn) return;
+      sendMessage(conn, { type: 'TAKE_SEAT' });
+      setFeedback({ key: 'feedback.askingSeat' });
   };
 
-  const handleClaimStart = () => {
-      if (phase !== ExtendedGamePhase.START_PLAYER_SELECTION) return;
+  // Hotseat passes the claiming seat; otherwise it is this device's own
+  const handleClaimStart = (playerId: string = myPlayerId) => {
+      if (phase !== GamePhase.START_PLAYER_SELECTION) return;
       if (isHost) {
-          const myIdx = players.findIndex(p => p.id === myPlayerId);
-          startGamePhase(myIdx);
+          startGamePhase(playerId);
       } else {
           if (conn) {
-              conn.send({ type: 'CLAIM_START', playerId: myPlayerId, name: myName });
-              setFeedback("Waiting for host...");
+              sendMessage(conn, { type: 'CLAIM_START' });
+              setFeedback({ key: 'feedback.waitingHost' });
           }
       }
   };
 
-  const startGamePhase = (startIndex: number) => {
-      const current = gameStateRef.current;
-      if (!current || !current.players[startIndex]) return;
-
-      const pName = current.players[startIndex].name;
-      const startMsg = `${pName} starts!`;
-      setSystemMessage(startMsg); // Global message
-      
-      const newState = {
-          ...current,
-          phase: ExtendedGamePhase.PLACEMENT,
-          currentPlayerIndex: startIndex,
-          resolutionStep: -1,
-          resolutionResults: [],
-          systemMessage: startMsg
-      };
-      
-      // Update Ref first (Source of Truth)
-      gameStateRef.current = newState;
-      
-      // Update Local UI
-      setPhase(ExtendedGamePhase.PLACEMENT);
-      setCurrentPlayerIndex(startIndex);
-      
-      // Broadcast immediately
-      broadcastState(newState);
-      // Safety broadcast
-      setTimeout(() => broadcastState(newState), 500);
+  const startGamePhase = (playerId: string) => {
+      const before = sync.state.phase;
+      dispatch({ type: 'ClaimStart', playerId });
+      // Only the claim that actually started the round owns the message
+      if (before !== GamePhase.START_PLAYER_SELECTION || sync.state.phase !== GamePhase.PLACEMENT) return;
 
       // Clear the "Starts!" message after a bit
       setTimeout(() => {
-          if (gameStateRef.current.phase === ExtendedGamePhase.PLACEMENT) {
-              setSystemMessage("");
-              gameStateRef.current.systemMessage = "";
-              broadcastState(gameStateRef.current);
+          if (sync.state.phase === GamePhase.PLACEMENT) {
+              dispatch({ type: 'ClearMessage' });
           }
       }, 3000);
   };
 
   // --- Bot Logic ---
   useEffect(() => {
-      if (!isHost || phase !== ExtendedGamePhase.PLACEMENT) return;
+      if (!isHost || recovering || phase !== GamePhase.PLACEMENT || takeBack) return;
 
       const currentP = players[currentPlayerIndex];
-      if (currentP && !currentP.isLocal && currentP.id.startsWith('bot')) {
+      // Bot seats, and away humans with a bot standing in
+      const level = currentP && (currentP.id.startsWith('bot') ? currentP.botLevel || 'NORMAL' : currentP.standIn);
+      if (level) {
           const timer = setTimeout(() => {
-              const currentState = gameStateRef.current;
+              const currentState = sync.state;
               const botPlayer = currentState.players.find((p: Player) => p.id === currentP.id);
               if (botPlayer) {
-                  const bestMove = findBestBotMove(botPlayer.hand, currentState.clockSegments, currentState.activeClockDef, currentState.cardsPlayedCount);
+                  const rng = createRng(deriveSeed(currentState.seed, currentState.cardsPlayedCount));
+                  const bestMove = chooseBotMove(currentState, botPlayer.id, level, rng);
                   if (bestMove) {
-                      executePlayCard(botPlayer.id, bestMove.card, bestMove.segmentIndex, false);
+                      dispatch({ type: 'PlayCard', playerId: botPlayer.id, cardId: bestMove.card.id, segmentIndex: bestMove.segmentIndex, faceUp: bestMove.faceUp });
                   } else if (botPlayer.hand.length > 0) {
-                      executePlayCard(botPlayer.id, botPlayer.hand[0], 0, false);
+                      dispatch({ type: 'PlayCard', playerId: botPlayer.id, cardId: botPlayer.hand[0].id, segmentIndex: 0, faceUp: false });
                   }
               }
           }, 1500); 
           return () => clearTimeout(timer);
       }
-  }, [currentPlayerIndex, phase, isHost, players]); 
+  }, [currentPlayerIndex, phase, isHost, recovering, players, takeBack]); 
 
   // --- Interaction ---
   const handleCardSelect = (cardId: string) => {
-    if (phase !== ExtendedGamePhase.PLACEMENT) return;
-    const player = players.find(p => p.id === myPlayerId);
+    if (phase !== GamePhase.PLACEMENT || needsHandoff) return;
+    const player = players.find(p => p.id === actingId);
     if (!player) return; 
-    if (players[currentPlayerIndex].id !== myPlayerId) return;
+    if (players[currentPlayerIndex].id !== actingId) return;
     
     if (player.hand.some(c => c.id === cardId)) {
         if (selectedCardId === cardId) {
@@ -504,160 +718,69 @@ const App: React.FC = () => {
     }
   };
 
-  const handleSegmentClick = (segmentIndex: number) => {
-    if (phase !== ExtendedGamePhase.PLACEMENT) return;
-    if (players[currentPlayerIndex].id !== myPlayerId) return;
-    if (!selectedCardId) { setFeedback("Select a card first."); return; }
+  const placeCard = (segmentIndex: number, needsConfirm: boolean) => {
+    if (phase !== GamePhase.PLACEMENT || needsHandoff) return;
+    if (players[currentPlayerIndex].id !== actingId) return;
+    if (!selectedCardId) { setFeedback({ key: 'feedback.selectCard' }); return; }
 
-    const player = players.find(p => p.id === myPlayerId);
-    const cardToPlay = player?.hand.find(c => c.id === selectedCardId);
-    if (!cardToPlay) return;
-
-    // Check Rules (with global counter)
-    if (activeClockDef.placementRestriction) {
-        const check = activeClockDef.placementRestriction(cardToPlay, segmentIndex, clockSegments, cardsPlayedCount);
-        if (!check.passed) { setFeedback(`Invalid: ${check.message}`); return; }
-    }
+    // Check Rules (same check the host applies)
+    const action: GameAction = { type: 'PlayCard', playerId: actingId, cardId: selectedCardId, segmentIndex, faceUp: playFaceUp };
+    const check = validateMove(game, action);
+    if (!check.passed) { setFeedback({ key: 'feedback.invalid', params: { reason: movePhrase(check) } }); return; }
+    if (needsConfirm) { setPendingSegment(segmentIndex); return; }
+    setPendingSegment(null);
 
     if (isHost) {
-        executePlayCard(myPlayerId, cardToPlay, segmentIndex, playFaceUp);
+        dispatch(action);
+        setSelectedCardId(null);
     } else {
         if (conn) {
-            conn.send({ type: 'MOVE', playerId: myPlayerId, card: cardToPlay, segmentIndex, faceUp: playFaceUp });
-            setFeedback("Sending...");
+            sendMessage(conn, { type: 'MOVE', cardId: selectedCardId, segmentIndex, faceUp: playFaceUp });
+            setFeedback({ key: 'feedback.sending' });
             setSelectedCardId(null);
         }
     }
   };
 
-  const executePlayCard = (playerId: string, card: Card, segmentIndex: number, faceUp: boolean) => {
-      const curr = gameStateRef.current;
-      if (!curr) return;
-      
-      const newPlayers = curr.players.map((p: Player) => {
-        if (p.id === playerId) {
-            return { ...p, hand: p.hand.filter((c: Card) => c.id !== card.id) };
-        }
-        return p;
-      });
-      
-      const playedCard = { ...card, isFaceUp: faceUp, ownerId: playerId };
-      const newSegments = [...curr.clockSegments];
-      newSegments[segmentIndex] = {
-          ...newSegments[segmentIndex],
-          cards: [...newSegments[segmentIndex].cards, playedCard]
-      };
+  // A click only marks the slot when moves need confirming; a drop is deliberate enough to commit
+  const handleSegmentClick = (segmentIndex: number) => placeCard(segmentIndex, confirmMoves);
+  const handleSegmentDrop = (segmentIndex: number) => placeCard(segmentIndex, false);
 
-      const newFaceUpCount = faceUp ? curr.faceUpTokensUsed + 1 : curr.faceUpTokensUsed;
-      const newCount = curr.cardsPlayedCount + 1;
-      
-      const currentIdx = curr.players.findIndex((p: Player) => p.id === playerId);
-      const nextIdx = (currentIdx + 1) % curr.players.length;
-      
-      // Calculate Next Phase
-      const allEmpty = newPlayers.every((p: Player) => p.hand.length === 0);
-      let nextPhase = curr.phase;
-      if (allEmpty) {
-          nextPhase = ExtendedGamePhase.RESOLUTION;
-          setFeedback("Resolving...");
-          startResolution(newSegments);
-      }
-
-      const newState = { 
-          ...curr,
-          phase: nextPhase,
-          players: newPlayers,
-          clockSegments: newSegments,
-          currentPlayerIndex: nextIdx,
-          faceUpTokensUsed: newFaceUpCount,
-          cardsPlayedCount: newCount
-      };
+  const handleCardDragStart = (e: React.DragEvent, cardId: string) => {
+    e.dataTransfer.setData('text/plain', cardId);
+    if (selectedCardId !== cardId) {
+        setSelectedCardId(cardId);
+        setPlayFaceUp(false);
+    }
+  };
 
-      // Update Ref (Source of Truth)
-      gameStateRef.current = newState;
-      
-      // Update Local UI
-      setPlayers(newPlayers);
-      setClockSegments(newSegments);
-      setFaceUpTokensUsed(newFaceUpCount);
-      setCardsPlayedCount(newCount);
-      setCurrentPlayerIndex(nextIdx);
-      if (nextPhase !== phase) setPhase(nextPhase);
-      
-      setSelectedCardId(null);
-      
-      // Broadcast immediately
-      broadcastState(newState);
+  // --- Take-backs ---
+  // The host dispatches for its own (and hotseat) seats; clients ask the host
+  const requestTakeBack = (playerId: string) => {
+      if (isHost) dispatch({ type: 'RequestTakeBack', playerId });
+      else if (conn) sendMessage(conn, { type: 'TAKE_BACK' });
   };
 
-  // --- Resolution Loop ---
-  const startResolution = (finalSegments: ClockSegment[]) => {
-      setResolutionStep(0);
-      setSystemMessage("Resolving...");
-      const s = { ...gameStateRef.current, systemMessage: "Resolving..." };
-      gameStateRef.current = s;
-      broadcastState(s);
+  const voteTakeBack = (playerId: string, accept: boolean) => {
+      if (isHost) dispatch({ type: 'VoteTakeBack', playerId, accept });
+      else if (conn) sendMessage(conn, { type: 'TAKE_BACK_VOTE', accept });
   };
 
+  // --- Resolution Loop (Host drives the engine one slot at a time) ---
   useEffect(() => {
-    if (phase === ExtendedGamePhase.RESOLUTION && resolutionStep >= 0 && resolutionStep < TOTAL_SEGMENTS) {
-        const timer = setTimeout(() => {
-            const segment = clockSegments[resolutionStep];
-            let passed = true;
-            let msg = "";
-
-            if (segment.cards.length === 0) {
-                passed = false; msg = "Empty";
-            } else {
-                if (activeClockDef.segmentRules && activeClockDef.segmentRules[resolutionStep]) {
-                    const res = activeClockDef.segmentRules[resolutionStep](segment);
-                    if (!res.passed) { passed = false; msg = res.message || "Rule Failed"; }
-                }
-                if (passed && resolutionStep > 0) {
-                    const prevSum = clockSegments[resolutionStep - 1].cards.reduce((acc,c) => acc + c.value, 0);
-                    const currSum = segment.cards.reduce((acc,c) => acc + c.value, 0);
-                    if (currSum < prevSum) { passed = false; msg = "Not Ascending"; }
-                }
-            }
+    if (!isHost || recovering || phase !== GamePhase.RESOLUTION) return;
+    if (resolutionStep < 0 || resolutionStep >= TOTAL_SEGMENTS) return;
 
-            const newResult = { index: resolutionStep, passed, message: msg };
-            setResolutionResults(prev => [...prev, newResult]);
-            setResolutionStep(prev => prev + 1);
-            
-            if (isHost) {
-                const newState = {
-                    ...gameStateRef.current,
-                    resolutionStep: resolutionStep + 1,
-                    resolutionResults: [...resolutionResults, newResult]
-                };
-                gameStateRef.current = newState;
-                broadcastState(newState);
-            }
-        }, 2000); 
-        return () => clearTimeout(timer);
-    } else if (phase === ExtendedGamePhase.RESOLUTION && resolutionStep === TOTAL_SEGMENTS) {
-        if (isHost) {
-            const totalValidation = validateClock(clockSegments, activeClockDef);
-            const allPassed = totalValidation.every(r => r.passed);
-            const finalMsg = allPassed ? "VICTORY!" : "DEFEAT!";
-            setSystemMessage(finalMsg);
-            
-            const newState = { 
-                ...gameStateRef.current, 
-                systemMessage: finalMsg 
-            };
-            gameStateRef.current = newState;
-            broadcastState(newState);
-        }
-    }
-  }, [phase, resolutionStep, clockSegments]);
+    const timer = setTimeout(() => dispatch({ type: 'ResolveStep' }), 2000);
+    return () => clearTimeout(timer);
+  }, [phase, resolutionStep, isHost, recovering]);
 
   // --- Copy Helper ---
   // Improved Robust Copy Function
   const copyToClipboard = (text: string) => {
     const handleSuccess = () => {
-        setFeedback("Copied!");
-        setTimeout(() => setFeedback(""), 2000);
+        setFeedback({ key: 'feedback.copied' });
+        setTimeout(() => setFeedback(null), 2000);
     };
 
     if (navigator.clipboard && navigator.clipboard.writeText) {
@@ -682,61 +805,186 @@ const App: React.FC = () => {
           ta.select();
           document.execCommand('copy');
           document.body.removeChild(ta);
-          setFeedback("Copied!");
-          setTimeout(() => setFeedback(""), 2000);
+          setFeedback({ key: 'feedback.copied' });
+          setTimeout(() => setFeedback(null), 2000);
       } catch (e) {
           console.error("Manual copy fallback failed", e);
-          setFeedback("Copy Failed");
+          setFeedback({ key: 'feedback.copyFailed' });
       }
   };
 
   // --- Render ---
 
-  const myPlayer = players.find(p => p.id === myPlayerId);
-  const faceUpLimit = players.length;
-  const isMyTurn = players[currentPlayerIndex]?.id === myPlayerId;
-  const inviteLink = myPeerId ? `${window.location.href.split('?')[0]}?lobby=${myPeerId}` : '';
+  // Hotseat: several humans share the host's screen, so it acts for whichever
+  // local seat is on turn, and only shows that hand once the device has been
+  // passed over (isLocal is the host's view; clients never hotseat)
+  const localSeats = isHost ? players.filter(p => p.isLocal) : [];
+  const isHotseat = localSeats.length > 1;
+  const currentSeat = players[currentPlayerIndex];
+  const actingId = isHotseat ? (currentSeat?.isLocal ? currentSeat.id : null) : myPlayerId;
+  const needsHandoff = isHotseat && phase === GamePhase.PLACEMENT && !!actingId && revealedFor !== actingId;
+  const handHidden = needsHandoff || (isHotseat && phase !== GamePhase.PLACEMENT);
+  const myPlayer = handHidden ? undefined : players.find(p => p.id === actingId);
+  const faceUpLimit = getFaceUpLimit(game);
+  const isMyTurn = !!actingId && currentSeat?.id === actingId;
+  // Where the held card may go, for shading the clock (same check the host applies)
+  const legality = isMyTurn && selectedCardId && phase === GamePhase.PLACEMENT && !needsHandoff
+      ? clockSegments.map(seg => validateMove(game, { type: 'PlayCard', playerId: actingId!, cardId: selectedCardId, segmentIndex: seg.index, faceUp: playFaceUp }).passed)
+      : null;
+
+  // Screen readers hear every logged event as it lands, plus whose turn it is.
+  // Described from this seat's view, so the host's full state leaks nothing.
+  const announcedRef = useRef<LogEntry | null>(null);
+  useEffect(() => {
+      const last = sync.log[sync.log.length - 1];
+      if (!last || last === announcedRef.current) return;
+      announcedRef.current = last;
+      if (last.action.type === 'ClearMessage' || last.action.type === 'Reset') return;
+      const turn = phase === GamePhase.PLACEMENT && !takeBack
+          ? ` ${isMyTurn ? (isHotseat ? t('announce.seatTurn', { name: currentSeat.name }) : t('announce.yourTurn')) : t('announce.theirTurn', { name: currentSeat?.name })}`
+          : '';
+      setAnnouncement(`${describeEntry(last, projectState(game, isHotseat ? null : myPlayerId), i18n)}.${turn}`);
+  }, [game]);
+
+  // Keyboard play: arrows pick a card, F toggles face up, 1-6 place on a slot
+  const keyHandlerRef = useRef<(e: KeyboardEvent) => void>(() => {});
+  keyHandlerRef.current = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+      if (phase !== GamePhase.PLACEMENT || !isMyTurn || !myPlayer) return;
+      const hand = myPlayer.hand;
+
+      if ((e.key === 'ArrowLeft' || e.key === 'ArrowRight') && hand.length > 0) {
+          e.preventDefault();
+          const current = hand.findIndex(c => c.id === selectedCardId);
+          const step = e.key === 'ArrowRight' ? 1 : -1;
+          const next = current === -1 ? (step === 1 ? 0 : hand.length - 1) : (current + step + hand.length) % hand.length;
+          setSelectedCardId(hand[next].id);
+          setPlayFaceUp(false);
+          const card = hand[next];
+          const type: Phrase = { key: card.type === CardType.SOLAR ? 'card.SOLAR' : 'card.LUNAR' };
+          setAnnouncement(t('announce.selected', { card: { key: 'card.label', params: { type, value: card.value } } }));
+      } else if (e.key === 'f' || e.key === 'F') {
+          if (!selectedCardId || faceUpTokensUsed >= faceUpLimit) return;
+          setPlayFaceUp(!playFaceUp);
+          setAnnouncement(t(playFaceUp ? 'announce.faceDown' : 'announce.faceUp'));
+      } else if (/^[1-6]$/.test(e.key)) {
+          handleSegmentClick(Number(e.key) - 1);
+      } else if (e.key === 'Escape') {
+          if (pendingSegment !== null) setPendingSegment(null);
+          else setSelectedCardId(null);
+      }
+  };
+  useEffect(() => {
+      const onKeyDown = (e: KeyboardEvent) => keyHandlerRef.current(e);
+      window.addEventListener('keydown', onKeyDown);
+      return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
 
-  if (phase === ExtendedGamePhase.LOBBY) {
+  // Seats this screen speaks for in take-backs
+  const mySeatIds = isHost ? localSeats.map(p => p.id) : [myPlayerId];
+  const canTakeBack = game.allowTakeBacks && phase === GamePhase.PLACEMENT && !takeBack && !!lastPlay && mySeatIds.includes(lastPlay.playerId);
+  const myVoterIds = takeBack
+      ? getTakeBackVoters(game, takeBack.playerId).filter(id => mySeatIds.includes(id) && !takeBack.accepted.includes(id))
+      : [];
+  const nextCampaignClock = getNextCampaignClock(campaign);
+  // Seats left over after the host and connected peers, as initGame fills them
+  const seatedPeers = connectedPeersList.filter(p => p.role === 'PLAYER');
+  const spectators = connectedPeersList.filter(p => p.role === 'SPECTATOR');
+  const humanSeats = Math.min(playerCountSetting, 1 + hotseatNames.length + seatedPeers.length);
+  const botSeatIndices = Array.from({ length: playerCountSetting - humanSeats }, (_, i) => humanSeats + i);
+  const myRosterEntry = roster.find(m => m.playerId === myPlayerId);
+  // Only seated clients hold seed shares, so without one connected nobody can take over from the host (see migrateHost)
+  const connectedIds = isHost ? connectedPeersList.map(p => p.id) : roster.map(m => m.playerId);
+  const noSuccessor = phase !== GamePhase.LOBBY && !game.outcome && (isHost ? connectedIds.length > 0 : !!conn)
+      && !connectedIds.some(id => players.some(p => p.id === id));
+  const parsedDealCode = dealCodeInput ? parseDealCode(dealCodeInput) : null;
+  // Clients only learn the seed once the match is over
+  const dealCode = game.matchId && (isHost || game.outcome)
+      ? encodeDealCode({ clockId: activeClockDef.id, playerCount: players.length, seed: game.seed, mode: game.dealMode })
+      : '';
+
+  // After a defeat: could this deal have been won at all? Counting stops at the
+  // cap so the render after a loss stays quick; past it the count shows as "1000+".
+  const defeatAnalysis = useMemo(() => {
+      if (game.outcome !== 'DEFEAT') return null;
+      return solveDeal(handsFromClock(game.clockSegments, game.players.map(p => p.id)), game.clock, { maxSolutions: DEFEAT_SOLUTION_CAP });
+  }, [game.matchId, game.outcome]);
+  useEffect(() => { setShowSolution(false); }, [game.matchId, game.outcome]);
+  const hasOrderRules = (activeClockDef.placementRules || []).some(r => r.type === 'nthCardToSlot');
+  const inviteLink = myPeerId ? `${window.location.href.split('?')[0]}?lobby=${myPeerId}${getTransportQuery(transportConfig)}` : '';
+
+  if (phase === GamePhase.LOBBY) {
       return (
           <div className="min-h-screen bg-void flex flex-col items-center justify-center p-4 text-parchment animate-deal">
               <h1 className="text-6xl font-serif text-gold mb-8 drop-shadow-lg">Take Time</h1>
               
               <div className="bg-void-light p-8 rounded-xl border border-gold-dim shadow-2xl w-full max-w-md relative">
                   <div className="mb-4">
-                      <label className="block text-sm text-gray-400 mb-1">Your Name</label>
+                      <label className="block text-sm text-gray-400 mb-1">{t('lobby.yourName')}</label>
                       <input 
                         className="w-full bg-void border border-gray-600 p-2 rounded text-lg focus:border-gold outline-none"
                         value={myName}
                         onChange={e => setMyName(e.target.value)}
                       />
+                      <label className="flex items-center gap-2 text-xs text-gray-400 mt-2">
+                          <input type="checkbox" checked={confirmMoves} onChange={e => setConfirmMoves(e.target.checked)} />
+                          {t('lobby.confirmMoves')}
+                      </label>
+                      <label className="flex items-center gap-2 text-xs text-gray-400 mt-2">
+                          {t('lobby.cardColours')}
+                          <select value={themeId} onChange={e => setThemeId(e.target.value as ThemeId)} className="bg-void border border-gray-600 rounded text-xs px-1">
+                              {Object.values(THEMES).map(option => <option key={option.id} value={option.id}>{t(`theme.${option.id}`)}</option>)}
+                          </select>
+                      </label>
+                      <label className="flex items-center gap-2 text-xs text-gray-400 mt-2">
+                          {t('lobby.language')}
+                          <select value={locale} onChange={e => setLocale(e.target.value as Locale)} className="bg-void border border-gray-600 rounded text-xs px-1">
+                              {(Object.entries(LOCALES) as [Locale, string][]).map(([id, name]) => <option key={id} value={id}>{name}</option>)}
+                          </select>
+                      </label>
                   </div>
 
                   <div className="flex gap-4 mb-6">
                       <button onClick={() => setIsHost(true)} className={`flex-1 p-3 rounded font-bold transition-all ${isHost ? 'bg-gold text-void' : 'bg-gray-700 hover:bg-gray-600'}`}>
-                          Host Game
+                          {t('lobby.host')}
                       </button>
                       <button onClick={() => setIsHost(false)} className={`flex-1 p-3 rounded font-bold transition-all ${!isHost ? 'bg-gold text-void' : 'bg-gray-700 hover:bg-gray-600'}`}>
-                          Join Game
+                          {t('lobby.join')}
                       </button>
                   </div>
 
                   {isHost ? (
                       <div className="space-y-4">
                           <div>
-                              <label className="block text-sm text-gray-400 mb-1">Total Players</label>
+                              <label className="block text-sm text-gray-400 mb-1">{t('lobby.totalPlayers')}</label>
+                              <div className="flex gap-2">
+                                  {SUPPORTED_PLAYER_COUNTS.map(count => (
+                                      <button key={count} onClick={() => setPlayerCountSetting(count)} className={`flex-1 py-2 rounded border ${playerCountSetting===count ? 'border-gold bg-gold bg-opacity-20' : 'border-gray-600'}`}>{count}</button>
+                                  ))}
+                              </div>
+                          </div>
+
+                          <div>
+                              <label className="block text-sm text-gray-400 mb-1">{t('lobby.deal')}</label>
                               <div className="flex gap-2">
-                                  <button onClick={() => setPlayerCountSetting(3)} className={`flex-1 py-2 rounded border ${playerCountSetting===3 ? 'border-gold bg-gold bg-opacity-20' : 'border-gray-600'}`}>3</button>
-                                  <button onClick={() => setPlayerCountSetting(4)} className={`flex-1 py-2 rounded border ${playerCountSetting===4 ? 'border-gold bg-gold bg-opacity-20' : 'border-gray-600'}`}>4</button>
+                                  {(['RANDOM', 'SOLVABLE', 'HARD', 'EXPERT'] as DealMode[]).map(mode => (
+                                      <button key={mode} onClick={() => setDealMode(mode)} className={`flex-1 py-2 rounded border text-xs ${dealMode===mode ? 'border-gold bg-gold bg-opacity-20' : 'border-gray-600'}`}>{t(`deal.${mode}`)}</button>
+                                  ))}
                               </div>
+                              {dealMode !== 'RANDOM' && (
+                                  <p className="text-xs mt-1 text-gray-500 italic">
+                                      {t(dealMode === 'SOLVABLE' ? 'lobby.dealSolvable' : 'lobby.dealHard')}
+                                  </p>
+                              )}
                           </div>
                           
                           <div className="bg-black bg-opacity-30 p-4 rounded text-center space-y-4">
                               {/* New: Display Raw Code */}
                               <div>
-                                  <p className="text-xs text-gray-500 uppercase mb-1">Lobby Code</p>
+                                  <p className="text-xs text-gray-500 uppercase mb-1">{t('lobby.lobbyCode')}</p>
                                   <div className="flex items-center justify-center gap-2">
-                                      <span className="font-mono text-xl text-gold tracking-wider select-all cursor-pointer hover:text-white transition-colors" onClick={() => copyToClipboard(myPeerId)} title="Click to Copy">
+                                      <span className="font-mono text-xl text-gold tracking-wider select-all cursor-pointer hover:text-white transition-colors" onClick={() => copyToClipboard(myPeerId)} title={t('lobby.clickToCopy')}>
                                           {myPeerId}
                                       </span>
                                   </div>
@@ -744,7 +992,7 @@ const App: React.FC = () => {
 
                               {/* Link */}
                               <div>
-                                  <p className="text-xs text-gray-500 uppercase mb-1">Invite Link</p>
+                                  <p className="text-xs text-gray-500 uppercase mb-1">{t('lobby.inviteLink')}</p>
                                   <div className="flex items-center gap-2 bg-void-dark p-1 rounded border border-gray-700">
                                       <input 
                                         readOnly 
@@ -753,54 +1001,197 @@ const App: React.FC = () => {
                                         className="flex-1 bg-transparent text-gray-400 font-mono text-xs border-none outline-none text-ellipsis px-2" 
                                       />
                                       <button onClick={() => copyToClipboard(inviteLink)} className="bg-gray-700 px-3 py-1 rounded text-xs hover:bg-gray-600 font-bold border border-gray-600 text-white">
-                                          Copy
+                                          {t('lobby.copy')}
                                       </button>
                                   </div>
                               </div>
                           </div>
                           
                           <div className="text-sm text-gray-400 border-t border-gray-700 pt-2">
-                             <div className="font-bold mb-1">Lobby Members:</div>
+                             <div className="font-bold mb-1">{t('lobby.members')}</div>
                              <ul className="list-disc pl-5">
-                                 <li className="text-gold">{myName} (You)</li>
-                                 {connectedPeersList.map((p,i) => <li key={i} className="text-white">{p.name}</li>)}
+                                 <li className="text-gold">{myName} {t('common.you')}</li>
+                                 {hotseatNames.map((name, i) => (
+                                     <li key={`local-${i}`} className="text-gold">
+                                         <input
+                                           value={name}
+                                           onChange={e => setHotseatNames(prev => prev.map((n, j) => (j === i ? e.target.value : n)))}
+                                           placeholder={t('seat.player', { n: i + 2 })}
+                                           className="bg-void border border-gray-600 rounded text-xs px-1 w-28"
+                                         />
+                                         <span className="text-xs text-gray-500 ml-1">{t('lobby.thisDevice')}</span>
+                                         <button onClick={() => setHotseatNames(prev => prev.filter((_, j) => j !== i))} className="ml-2 text-xs text-gray-500 hover:text-white">✕</button>
+                                     </li>
+                                 ))}
+                                 {seatedPeers.map(p => <li key={p.id} className="text-white">{p.name}</li>)}
+                                 {botSeatIndices.map(seatIndex => (
+                                     <li key={`bot-${seatIndex}`} className="text-gray-500">
+                                         {t('seat.bot', { n: seatIndex })}
+                                         <select
+                                           value={botLevels[seatIndex] || 'NORMAL'}
+                                           onChange={e => setBotLevels(prev => ({ ...prev, [seatIndex]: e.target.value as BotLevel }))}
+                                           className="ml-2 bg-void border border-gray-600 rounded text-xs px-1"
+                                         >
+                                             {(['EASY', 'NORMAL', 'HARD'] as BotLevel[]).map(level => (
+                                                 <option key={level} value={level}>{t(`bot.${level}`)}</option>
+                                             ))}
+                                         </select>
+                                     </li>
+                                 ))}
                              </ul>
-                             <p className="text-xs mt-2 italic">Remaining slots will be filled by Bots.</p>
+                             <p className="text-xs mt-2 italic">{t('lobby.botsFill')}</p>
+                             <button
+                               onClick={() => setHotseatNames(prev => [...prev, ''])}
+                               disabled={1 + hotseatNames.length >= playerCountSetting}
+                               className="mt-2 text-xs border border-gray-600 rounded px-2 py-1 hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                             >
+                                 {t('lobby.addHotseat')}
+                             </button>
+                             <label className="flex items-center gap-2 text-xs mt-2">
+                                 <input type="checkbox" checked={standInEnabled} onChange={e => setStandInEnabled(e.target.checked)} />
+                                 {t('lobby.standIn', { seconds: STAND_IN_DELAY_MS / 1000 })}
+                             </label>
+                             <label className="flex items-center gap-2 text-xs mt-1">
+                                 <input type="checkbox" checked={allowTakeBacks} onChange={e => setAllowTakeBacks(e.target.checked)} />
+                                 {t('lobby.takeBacks')}
+                             </label>
+                             {spectators.length > 0 && (
+                                 <>
+                                     <div className="font-bold mt-2 mb-1">{t('lobby.spectators')}</div>
+                                     <ul className="list-disc pl-5">
+                                         {spectators.map(p => <li key={p.id} className="text-gray-300">{p.name}</li>)}
+                                     </ul>
+                                 </>
+                             )}
                           </div>
 
                           <div className="border-t border-gray-700 pt-4">
-                              <h3 className="text-gold mb-2">Select Mission:</h3>
-                              <div className="grid grid-cols-2 gap-2 max-h-40 overflow-y-auto">
-                                  {CLOCK_DEFINITIONS.map(c => (
-                                      <button key={c.id} onClick={() => initGame(c.id)} className="text-left text-xs p-2 border border-gray-600 hover:bg-white hover:bg-opacity-10 rounded">
-                                          {c.name}
-                                      </button>
+                              <h3 className="text-gold mb-2">{t('lobby.selectMission')}</h3>
+                              <button
+                                onClick={() => nextCampaignClock && initGame(nextCampaignClock.id)}
+                                disabled={!nextCampaignClock}
+                                className="w-full mb-3 py-2 rounded font-bold bg-gold text-void hover:bg-white disabled:opacity-50 disabled:cursor-not-allowed"
+                              >
+                                  {nextCampaignClock ? t('lobby.continueCampaign', { clock: localizeClock(nextCampaignClock, locale).name }) : t('lobby.campaignComplete')}
+                              </button>
+                              <div className="space-y-3 max-h-60 overflow-y-auto">
+                                  {getClocksByChapter().map(({ chapter, clocks }) => (
+                                      <div key={chapter}>
+                                          <p className="text-xs text-gray-500 uppercase mb-1">{t('lobby.chapter', { chapter })}</p>
+                                          <div className="grid grid-cols-2 gap-2">
+                                              {clocks.map(clock => {
+                                                  const c = localizeClock(clock, locale);
+                                                  const unlocked = isClockUnlocked(campaign, c.id);
+                                                  const progress = campaign.clocks[c.id];
+                                                  return (
+                                                      <button
+                                                        key={c.id}
+                                                        onClick={() => initGame(c.id)}
+                                                        disabled={!unlocked}
+                                                        title={unlocked ? c.description : t('lobby.locked')}
+                                                        className="text-left text-xs p-2 border border-gray-600 hover:bg-white hover:bg-opacity-10 rounded disabled:opacity-40 disabled:cursor-not-allowed flex justify-between"
+                                                      >
+                                                          <span>{unlocked ? '' : '🔒 '}{c.name}</span>
+                                                          {progress && (
+                                                              <span className={isClockBeaten(campaign, c.id) ? 'text-green-400' : 'text-gray-500'}>
+                                                                  {isClockBeaten(campaign, c.id) ? '✓ ' : ''}{progress.wins}/{progress.attempts}
+                                                              </span>
+                                                          )}
+                                                      </button>
+                                                  );
+                                              })}
+                                          </div>
+                                      </div>
                                   ))}
                               </div>
+
+                              <div className="mt-3">
+                                  <label className="block text-xs text-gray-500 uppercase mb-1">{t('lobby.replayCode')}</label>
+                                  <div className="flex gap-2">
+                                      <input
+                                        className="flex-1 bg-void border border-gray-600 p-1 rounded font-mono text-xs uppercase tracking-wider"
+                                        placeholder={t('lobby.codeExample')}
+                                        value={dealCodeInput}
+                                        onChange={e => setDealCodeInput(e.target.value)}
+                                      />
+                                      <button
+                                        onClick={() => parsedDealCode && initGame(parsedDealCode.clockId, parsedDealCode)}
+                                        disabled={!parsedDealCode}
+                                        className="bg-gray-700 px-3 py-1 rounded text-xs hover:bg-gray-600 font-bold border border-gray-600 text-white disabled:opacity-50"
+                                      >
+                                          {t('lobby.play')}
+                                      </button>
+                                  </div>
+                                  {dealCodeInput && !parsedDealCode && (
+                                      <p className="text-xs text-red-400 mt-1">{t('lobby.unknownCode')}</p>
+                                  )}
+                              </div>
                           </div>
                       </div>
                   ) : (
                       <div className="space-y-4">
                           <div>
-                              <label className="block text-sm text-gray-400 mb-1">Lobby Code</label>
+                              <label className="block text-sm text-gray-400 mb-1">{t('lobby.lobbyCode')}</label>
                               <input 
                                 className="w-full bg-void border border-gray-600 p-2 rounded font-mono text-center uppercase tracking-widest"
-                                placeholder="Paste Code Here"
+                                placeholder={t('lobby.pasteCode')}
                                 value={targetLobbyId}
                                 onChange={(e) => setTargetLobbyId(e.target.value)}
                               />
                           </div>
-                          <button onClick={() => connectToHost(targetLobbyId)} className="w-full bg-blue-600 hover:bg-blue-500 text-white font-bold py-3 rounded">
-                              CONNECT
-                          </button>
+                          <div className="flex gap-2">
+                              <button onClick={() => { joinRoleRef.current = 'PLAYER'; connectToHost(targetLobbyId); }} className="flex-1 bg-blue-600 hover:bg-blue-500 text-white font-bold py-3 rounded">
+                                  {t('lobby.connect')}
+                              </button>
+                              <button onClick={() => { joinRoleRef.current = 'SPECTATOR'; connectToHost(targetLobbyId); }} className="bg-gray-700 hover:bg-gray-600 text-white font-bold py-3 px-4 rounded" title={t('lobby.watchTitle')}>
+                                  {t('lobby.watch')}
+                              </button>
+                          </div>
                           {targetLobbyId && (
                               <div className="text-xs text-center text-gray-500 animate-pulse">
-                                  {feedback || "Ready to connect..."}
+                                  {formatPhrase(t, feedback || { key: 'feedback.readyToConnect' })}
+                              </div>
+                          )}
+                          {conn && roster.length > 0 && (
+                              <div className="text-sm text-gray-400 border-t border-gray-700 pt-2">
+                                  <div className="font-bold mb-1">{t('lobby.players')}</div>
+                                  <ul className="list-disc pl-5">
+                                      {roster.filter(m => m.role === 'PLAYER').map(m => (
+                                          <li key={m.playerId} className={m.playerId === myPlayerId ? 'text-gold' : 'text-white'}>{m.name}{m.playerId === myPlayerId && ` ${t('common.you')}`}</li>
+                                      ))}
+                                  </ul>
+                                  {roster.some(m => m.role === 'SPECTATOR') && (
+                                      <>
+                                          <div className="font-bold mt-2 mb-1">{t('lobby.spectators')}</div>
+                                          <ul className="list-disc pl-5">
+                                              {roster.filter(m => m.role === 'SPECTATOR').map(m => (
+                                                  <li key={m.playerId} className={m.playerId === myPlayerId ? 'text-gold' : 'text-gray-300'}>{m.name}{m.playerId === myPlayerId && ` ${t('common.you')}`}</li>
+                                              ))}
+                                          </ul>
+                                      </>
+                                  )}
+                                  {myRosterEntry?.role === 'SPECTATOR' && (
+                                      <button onClick={requestSeat} className="w-full mt-3 bg-gray-700 hover:bg-gray-600 text-white text-xs font-bold py-2 rounded border border-gray-600">
+                                          {t('lobby.takeBotSeat')}
+                                      </button>
+                                  )}
                               </div>
                           )}
                       </div>
                   )}
               </div>
+              {lastReplay && (
+                  <button onClick={() => setReplay(lastReplay)} className="mt-4 text-sm text-gold underline">
+                      {t('lobby.lastMatch')}
+                  </button>
+              )}
+              {replay && (
+                  <I18nContext.Provider value={i18n}>
+                      <ThemeContext.Provider value={theme}>
+                          <ReplayViewer replay={replay} onClose={() => setReplay(null)} />
+                      </ThemeContext.Provider>
+                  </I18nContext.Provider>
+              )}
           </div>
       );
   }
@@ -810,23 +1201,32 @@ const App: React.FC = () => {
       <div className={`w-full max-w-5xl flex items-center justify-between gap-4 ${dimmed ? 'opacity-50 grayscale pointer-events-none' : ''}`}>
          <div className="flex flex-col items-start gap-2">
              <div className="text-sm font-bold text-gold">
-                {dimmed ? "WAITING..." : (isMyTurn ? "YOUR TURN" : `${players[currentPlayerIndex]?.name}'s Turn`)}
+                {dimmed ? t('game.waiting') : (isMyTurn ? t('game.yourTurn') : t('game.theirTurn', { name: players[currentPlayerIndex]?.name }))}
              </div>
              <label className={`flex items-center gap-2 cursor-pointer transition-opacity ${(!selectedCardId || faceUpTokensUsed >= faceUpLimit || !isMyTurn || dimmed) ? 'opacity-50 cursor-not-allowed' : 'opacity-100'}`}>
                  <div className={`w-6 h-6 rounded border flex items-center justify-center ${playFaceUp ? 'bg-gold border-gold' : 'border-gray-500'}`}>
                      {playFaceUp && <span className="text-black text-xs">✓</span>}
                  </div>
-                 <input type="checkbox" className="hidden" checked={playFaceUp} onChange={e => setPlayFaceUp(e.target.checked)} disabled={!selectedCardId || faceUpTokensUsed >= faceUpLimit || !isMyTurn || dimmed} />
-                 <span className="text-sm">Play Face Up</span>
+                 <input type="checkbox" className="sr-only" checked={playFaceUp} onChange={e => setPlayFaceUp(e.target.checked)} disabled={!selectedCardId || faceUpTokensUsed >= faceUpLimit || !isMyTurn || dimmed} />
+                 <span className="text-sm">{t('game.playFaceUp')}</span>
              </label>
+             {!dimmed && <div className="text-[10px] text-gray-500">{t('game.keys')}</div>}
+             {pendingSegment !== null && !dimmed && (
+                 <div className="flex items-center gap-2 text-sm">
+                     <span>{t('game.placeOn', { slot: pendingSegment + 1 })}</span>
+                     <button onClick={() => placeCard(pendingSegment, false)} className="bg-gold text-void px-3 py-1 rounded font-bold hover:bg-white">{t('game.confirm')}</button>
+                     <button onClick={() => setPendingSegment(null)} className="border border-gray-600 px-3 py-1 rounded hover:bg-gray-700">{t('game.cancel')}</button>
+                 </div>
+             )}
          </div>
 
-         <div className="flex -space-x-2 md:space-x-4 overflow-visible px-4 py-2">
+         <div role="group" aria-label={t('game.yourHand')} className="flex -space-x-2 md:space-x-4 overflow-visible px-4 py-2">
              {myPlayer!.hand.map(card => (
                  <CardComponent 
                     key={card.id} 
                     card={card} 
                     onClick={() => handleCardSelect(card.id)}
+                    onDragStart={isMyTurn && !dimmed ? e => handleCardDragStart(e, card.id) : undefined}
                     selected={selectedCardId === card.id}
                  />
              ))}
@@ -835,117 +1235,203 @@ const App: React.FC = () => {
   );
 
   return (
-    <div className="min-h-screen bg-void text-parchment font-sans selection:bg-gold selection:text-void flex flex-col">
-        {/* Header */}
-        <div className="flex justify-between items-center p-3 bg-void-light shadow-md z-10">
-            <div className="flex items-center gap-4">
-               <h2 className="text-xl font-serif text-gold hidden md:block">{activeClockDef.name}</h2>
-               {/* Move Counter */}
-               {phase === ExtendedGamePhase.PLACEMENT && (
-                   <div className="bg-gray-800 border border-gray-600 px-3 py-1 rounded text-sm text-gray-300">
-                       Move <span className="text-gold font-bold">#{cardsPlayedCount + 1}</span>
-                   </div>
-               )}
-
-               {phase === ExtendedGamePhase.START_PLAYER_SELECTION && (
-                   <button 
-                    onClick={handleClaimStart}
-                    className="bg-red-600 hover:bg-red-500 text-white px-4 py-2 rounded shadow animate-pulse font-bold text-sm md:text-base whitespace-nowrap"
-                   >
-                       I Start!
-                   </button>
-               )}
-            </div>
+    <I18nContext.Provider value={i18n}>
+      <ThemeContext.Provider value={theme}>
+        <div className="min-h-screen bg-void text-parchment font-sans selection:bg-gold selection:text-void flex flex-col">
+            {/* Screen reader announcements */}
+            <div aria-live="polite" className="sr-only">{announcement}</div>
+            <div role="alert" className="sr-only">{feedback && formatPhrase(t, feedback)}</div>
+            {/* Header */}
+            <div className="flex justify-between items-center p-3 bg-void-light shadow-md z-10">
+                <div className="flex items-center gap-4">
+                   <h2 className="text-xl font-serif text-gold hidden md:block">{localizeClock(activeClockDef, locale).name}</h2>
+                   {dealCode && (
+                       <span className="font-mono text-xs text-gray-500 cursor-pointer hover:text-white hidden md:inline" onClick={() => copyToClipboard(dealCode)} title={t('game.dealCode')}>
+                           {dealCode}
+                       </span>
+                   )}
+                   {/* Move Counter */}
+                   {phase === GamePhase.PLACEMENT && (
+                       <div className="bg-gray-800 border border-gray-600 px-3 py-1 rounded text-sm text-gray-300">
+                           {t('game.move')} <span className="text-gold font-bold">#{cardsPlayedCount + 1}</span>
+                       </div>
+                   )}
+                   {canTakeBack && (
+                       <button onClick={() => requestTakeBack(lastPlay!.playerId)} className="bg-gray-800 border border-gray-600 px-3 py-1 rounded text-sm text-gray-300 hover:bg-gray-700" title={t('game.takeBackTitle')}>
+                           {t('game.takeBack')}
+                       </button>
+                   )}
+
+                   {phase === GamePhase.START_PLAYER_SELECTION && !isHotseat && myPlayer && (
+                       <button 
+                        onClick={() => handleClaimStart()}
+                        className="bg-red-600 hover:bg-red-500 text-white px-4 py-2 rounded shadow animate-pulse font-bold text-sm md:text-base whitespace-nowrap"
+                       >
+                           {t('game.iStart')}
+                       </button>
+                   )}
+                   {phase === GamePhase.START_PLAYER_SELECTION && isHotseat && localSeats.map(p => (
+                       <button
+                        key={p.id}
+                        onClick={() => handleClaimStart(p.id)}
+                        className="bg-red-600 hover:bg-red-500 text-white px-3 py-2 rounded shadow font-bold text-sm whitespace-nowrap"
+                       >
+                           {t('game.seatStarts', { name: p.name })}
+                       </button>
+                   ))}
+                </div>
             
-            <div className="flex gap-2">
-                {players.map((p, i) => (
-                    <div key={p.id} className={`flex flex-col items-center px-2 py-1 rounded border min-w-[60px] ${i === currentPlayerIndex ? 'border-gold bg-gold bg-opacity-10' : 'border-gray-700'}`}>
-                        <span className="text-[10px] font-bold text-gray-300 truncate max-w-[80px]">{p.name} {p.id === myPlayerId && "(You)"}</span>
-                        {/* Improved Hand Visualization: Solar vs Lunar */}
-                        <div className="flex -space-x-1 mt-1">
-                            {p.hand.map((card, idx) => (
-                                <div 
-                                    key={idx} 
-                                    className={`w-2 h-3 rounded-sm border border-black ${card.type === CardType.SOLAR ? 'bg-gold' : 'bg-indigo-500'}`}
-                                    title={card.type === CardType.SOLAR ? 'Solar' : 'Lunar'}
-                                ></div>
-                            ))}
+                <div className="flex gap-2">
+                    {players.map((p, i) => (
+                        <div key={p.id} className={`flex flex-col items-center px-2 py-1 rounded border min-w-[60px] ${i === currentPlayerIndex ? 'border-gold bg-gold bg-opacity-10' : 'border-gray-700'}`}>
+                            <span className="text-[10px] font-bold text-gray-300 truncate max-w-[80px]">{p.name} {p.id === myPlayerId && t('common.you')}</span>
+                            {p.away && (
+                                <span className="text-[9px] uppercase text-red-400" title={t(p.standIn ? 'game.standIn' : 'game.disconnected')}>
+                                    {p.standIn ? `🤖 ${t('game.away')}` : t('game.away')}
+                                </span>
+                            )}
+                            {/* Improved Hand Visualization: Solar vs Lunar */}
+                            <div className="flex -space-x-1 mt-1">
+                                {p.hand.map((card, idx) => (
+                                    <div 
+                                        key={idx} 
+                                        className={`w-2 h-3 border border-black ${card.type === CardType.SOLAR ? 'rounded-full' : 'rounded-none'} ${cardPalette(theme, card.type).pip}`}
+                                        title={t(card.type === CardType.SOLAR ? 'card.SOLAR' : 'card.LUNAR')}
+                                    ></div>
+                                ))}
+                            </div>
                         </div>
-                    </div>
-                ))}
-            </div>
+                    ))}
+                </div>
             
-            <div className="text-right flex items-center gap-4">
-                <div>
-                    <div className="text-xs text-gray-400">Face Up</div>
-                    <div className={`font-bold ${faceUpTokensUsed>=faceUpLimit ? 'text-red-400' : 'text-green-400'}`}>
-                        {faceUpTokensUsed}/{faceUpLimit}
+                <div className="text-right flex items-center gap-4">
+                    <div>
+                        <div className="text-xs text-gray-400">{t('game.faceUp')}</div>
+                        <div className={`font-bold ${faceUpTokensUsed>=faceUpLimit ? 'text-red-400' : 'text-green-400'}`}>
+                            {faceUpTokensUsed}/{faceUpLimit}
+                        </div>
                     </div>
+                    {isHost && (
+                        <div className="flex gap-2">
+                            <button onClick={abortGame} className="bg-red-900 border border-red-500 text-xs px-2 py-1 rounded hover:bg-red-800" title={t('game.abort')}>
+                                ✖
+                            </button>
+                        </div>
+                    )}
                 </div>
-                {isHost && (
-                    <div className="flex gap-2">
-                        <button onClick={forceSync} className="bg-blue-900 border border-blue-500 text-xs px-2 py-1 rounded hover:bg-blue-800" title="Force Resync">
-                            ↻
-                        </button>
-                        <button onClick={abortGame} className="bg-red-900 border border-red-500 text-xs px-2 py-1 rounded hover:bg-red-800" title="Abort Game">
-                            ✖
-                        </button>
-                    </div>
-                )}
             </div>
-        </div>
 
-        {/* Board */}
-        <div className="flex-1 relative flex items-center justify-center bg-[url('https://www.transparenttextures.com/patterns/stardust.png')] overflow-hidden">
-            <Clock 
-                segments={clockSegments} 
-                onSegmentClick={handleSegmentClick}
-                highlightedIndex={null}
-                definition={activeClockDef}
-                revealAll={false} 
-                resolutionStep={phase === ExtendedGamePhase.RESOLUTION ? resolutionStep : -1}
-                resolutionResults={resolutionResults}
-            />
-            {/* Local Feedback */}
-            {feedback && (
-                <div className="absolute top-20 left-1/2 transform -translate-x-1/2 bg-black bg-opacity-90 border border-gold px-6 py-2 rounded-full text-lg animate-pulse z-50 whitespace-nowrap pointer-events-none">
-                    {feedback}
-                </div>
-            )}
-            {/* Global System Message (Victory/Defeat/Starts) */}
-            {systemMessage && (
-                <div className="absolute top-32 left-1/2 transform -translate-x-1/2 bg-indigo-900 bg-opacity-95 border-2 border-gold px-8 py-4 rounded-xl text-2xl font-serif text-gold shadow-2xl z-50 whitespace-nowrap pointer-events-none animate-bounce">
-                    {systemMessage}
-                </div>
-            )}
+            {/* Board */}
+            <div className="flex-1 relative flex items-center justify-center bg-[url('https://www.transparenttextures.com/patterns/stardust.png')] overflow-hidden">
+                <Clock 
+                    segments={showSolution && defeatAnalysis?.example ? defeatAnalysis.example : clockSegments} 
+                    onSegmentClick={handleSegmentClick}
+                    onSegmentDrop={legality ? handleSegmentDrop : undefined}
+                    highlightedIndex={pendingSegment}
+                    legality={showSolution ? null : legality}
+                    definition={activeClockDef}
+                    revealAll={false} 
+                    resolutionStep={showSolution ? TOTAL_SEGMENTS : (phase === GamePhase.RESOLUTION ? resolutionStep : -1)}
+                    resolutionResults={showSolution ? [] : resolutionResults}
+                />
+                {/* Local Feedback */}
+                {feedback && (
+                    <div className="absolute top-20 left-1/2 transform -translate-x-1/2 bg-black bg-opacity-90 border border-gold px-6 py-2 rounded-full text-lg animate-pulse z-50 whitespace-nowrap pointer-events-none">
+                        {formatPhrase(t, feedback)}
+                    </div>
+                )}
+                {/* Take-back vote */}
+                {takeBack && phase === GamePhase.PLACEMENT && (
+                    <div className="absolute bottom-8 left-1/2 transform -translate-x-1/2 bg-black bg-opacity-90 border border-gold rounded-xl px-6 py-3 z-50 flex flex-col items-center gap-2 text-sm">
+                        <div>{t('game.takeBackRequest', { name: players.find(p => p.id === takeBack.playerId)?.name })}</div>
+                        {myVoterIds.map(id => (
+                            <div key={id} className="flex items-center gap-2">
+                                {isHotseat && <span className="text-gold">{players.find(p => p.id === id)?.name}:</span>}
+                                <button onClick={() => voteTakeBack(id, true)} className="bg-green-700 hover:bg-green-600 px-3 py-1 rounded font-bold">{t('game.accept')}</button>
+                                <button onClick={() => voteTakeBack(id, false)} className="bg-red-800 hover:bg-red-700 px-3 py-1 rounded font-bold">{t('game.decline')}</button>
+                            </div>
+                        ))}
+                        {myVoterIds.length === 0 && (
+                            <div className="text-xs text-gray-400">{t('game.takeBackWaiting', { accepted: takeBack.accepted.length, voters: getTakeBackVoters(game, takeBack.playerId).length })}</div>
+                        )}
+                    </div>
+                )}
+                {/* Global System Message (Victory/Defeat/Starts) */}
+                {systemMessage && (
+                    <div className="absolute top-32 left-1/2 transform -translate-x-1/2 bg-indigo-900 bg-opacity-95 border-2 border-gold px-8 py-4 rounded-xl text-2xl font-serif text-gold shadow-2xl z-50 whitespace-nowrap pointer-events-none animate-bounce">
+                        {formatPhrase(t, systemPhrase(systemMessage))}
+                    </div>
+                )}
 
-             {phase === ExtendedGamePhase.RESOLUTION && resolutionStep === TOTAL_SEGMENTS && (
-                 <div className="absolute bottom-32 left-1/2 transform -translate-x-1/2 z-50">
-                     <button onClick={() => setPhase(ExtendedGamePhase.LOBBY)} className="bg-gold text-void px-8 py-3 rounded font-bold shadow-lg hover:bg-white border-2 border-void">
-                         Return to Lobby
-                     </button>
-                 </div>
-            )}
-        </div>
+                 {isResolutionComplete(game) && (
+                     <div className="absolute bottom-32 left-1/2 transform -translate-x-1/2 z-50 flex flex-col items-center gap-2">
+                         {defeatAnalysis && (
+                             <div className="bg-black bg-opacity-80 border border-gold-dim rounded px-4 py-2 text-sm text-center">
+                                 {defeatAnalysis.solvable ? (
+                                     <>
+                                         <div>{t(defeatAnalysis.exhaustive ? 'game.solvable' : 'game.solvableCapped', { count: defeatAnalysis.solutionCount })}</div>
+                                         {showSolution && hasOrderRules && defeatAnalysis.startPlayerIndex !== null && (
+                                             <div className="text-xs text-gray-400">{t('game.mustStart', { name: players[defeatAnalysis.startPlayerIndex]?.name })}</div>
+                                         )}
+                                         <button onClick={() => setShowSolution(v => !v)} className="mt-1 text-gold underline text-xs">
+                                             {t(showSolution ? 'game.showOurs' : 'game.showSolution')}
+                                         </button>
+                                     </>
+                                 ) : (
+                                     <div>{t('game.unwinnable')}</div>
+                                 )}
+                             </div>
+                         )}
+                         <button onClick={() => setReplay({ seed: game.seed, log: sync.log })} className="bg-void-light text-gold px-6 py-2 rounded font-bold shadow-lg hover:bg-void border border-gold">
+                             {t('game.watchReplay')}
+                         </button>
+                         <button onClick={returnToLobby} className="bg-gold text-void px-8 py-3 rounded font-bold shadow-lg hover:bg-white border-2 border-void">
+                             {t('game.returnToLobby')}
+                         </button>
+                     </div>
+                )}
+            </div>
 
-        {/* Hand Area */}
-        <div className="bg-void-light border-t border-gold-dim p-4 flex flex-col items-center z-20">
-            {myPlayer && (
-                <>
-                    {phase === ExtendedGamePhase.PLACEMENT && renderHand(false)}
-                    {phase === ExtendedGamePhase.START_PLAYER_SELECTION && (
-                        <div className="flex flex-col items-center">
-                            <div className="text-center text-parchment animate-pulse mb-4">
-                                Decide who goes first, then click "I Start" above!
+            {/* Hand Area */}
+            <div className="bg-void-light border-t border-gold-dim p-4 flex flex-col items-center z-20">
+                {isHotseat && needsHandoff && (
+                    <div className="flex flex-col items-center gap-3 py-4">
+                        <div className="text-lg font-serif text-gold">{t('game.passDevice', { name: currentSeat.name })}</div>
+                        <button onClick={() => setRevealedFor(actingId)} className="bg-gold text-void px-6 py-2 rounded font-bold hover:bg-white">
+                            {t('game.showHand', { name: currentSeat.name })}
+                        </button>
+                    </div>
+                )}
+                {isHotseat && !needsHandoff && !myPlayer && (phase === GamePhase.PLACEMENT || phase === GamePhase.START_PLAYER_SELECTION) && (
+                    <div className="text-sm text-gray-400 italic">
+                        {phase === GamePhase.START_PLAYER_SELECTION ? t('game.hotseatStart') : t('game.waitingFor', { name: currentSeat?.name })}
+                    </div>
+                )}
+                {!isHotseat && !myPlayer && (
+                    <div className="text-sm text-gray-400 italic">{t('game.spectating')}</div>
+                )}
+                {noSuccessor && (
+                    <div className="text-xs text-red-400">{t(isHost ? 'game.noSuccessorHost' : 'game.noSuccessor')}</div>
+                )}
+                {myPlayer && (
+                    <>
+                        {phase === GamePhase.PLACEMENT && renderHand(false)}
+                        {phase === GamePhase.START_PLAYER_SELECTION && (
+                            <div className="flex flex-col items-center">
+                                <div className="text-center text-parchment animate-pulse mb-4">
+                                    {t('game.decideStart')}
+                                </div>
+                                {/* Show hand dimmed so user knows they have cards */}
+                                {renderHand(true)} 
                             </div>
-                            {/* Show hand dimmed so user knows they have cards */}
-                            {renderHand(true)} 
-                        </div>
-                    )}
-                </>
-            )}
+                        )}
+                    </>
+                )}
+            </div>
+            {replay && <ReplayViewer replay={replay} onClose={() => setReplay(null)} />}
         </div>
-    </div>
+      </ThemeContext.Provider>
+    </I18nContext.Provider>
   );
 };
 
@@ -1,5 +1,7 @@
 import React from 'react';
 import { Card, CardType } from '../types';
+import { cardPalette, useTheme } from '../utils/theme';
+import { useI18n } from '../utils/i18n';
 
 interface CardProps {
   card: Card;
@@ -8,11 +10,33 @@ interface CardProps {
   small?: boolean;
   hidden?: boolean; // If true, show back
   revealOverride?: boolean; // Force show face (for resolution)
+  onDragStart?: (e: React.DragEvent) => void; // Set to make the card draggable
+  onDragEnd?: () => void;
 }
 
-const CardComponent: React.FC<CardProps> = ({ card, onClick, selected, small, hidden, revealOverride }) => {
+const CardComponent: React.FC<CardProps> = ({ card, onClick, selected, small, hidden, revealOverride, onDragStart, onDragEnd }) => {
   const isRevealed = card.isFaceUp || revealOverride;
   const showBack = hidden && !isRevealed;
+  const { t } = useI18n();
+  const type = t(card.type === CardType.SOLAR ? 'card.SOLAR' : 'card.LUNAR');
+  const label = showBack
+    ? t('card.labelHidden', { type })
+    : t(card.isFaceUp ? 'card.labelFaceUp' : 'card.label', { type, value: card.value });
+
+  // Clickable cards behave as toggle buttons for the keyboard and screen readers
+  const a11y = onClick
+    ? {
+        role: 'button',
+        tabIndex: 0,
+        'aria-pressed': !!selected,
+        onKeyDown: (e: React.KeyboardEvent) => {
+          if (e.key === 'Enter' || e.key === ' ') {
+            e.preventDefault();
+            onClick();
+          }
+        },
+      }
+    : { role: 'img' };
 
   // Base layout
   const baseClasses = `
@@ -24,39 +48,38 @@ const CardComponent: React.FC<CardProps> = ({ card, onClick, selected, small, hi
 
   const isSolar = card.type === CardType.SOLAR;
   
-  // High contrast themes
-  // Solar: Gold background, Dark text (or White on Dark Gold)
-  // Lunar: Dark Blue background, White text
-  
-  // Back styling
-  const backBg = isSolar ? 'bg-amber-600' : 'bg-indigo-900'; 
-  const backBorder = isSolar ? 'border-amber-300' : 'border-indigo-400';
+  // Colours come from the player's theme; the ☀/☾ icon is on both sides
+  const palette = cardPalette(useTheme(), card.type);
 
   if (showBack) {
     return (
       <div 
         onClick={onClick} 
-        className={`${baseClasses} ${backBg} ${backBorder}`}
-        title={`${isSolar ? 'Solar' : 'Lunar'} Card (Hidden)`}
+        {...a11y}
+        aria-label={label}
+        className={`${baseClasses} ${palette.back}`}
+        title={t('card.titleHidden', { type })}
       >
-        <div className={`w-3/4 h-3/4 rounded-full border-4 opacity-40 ${isSolar ? 'border-amber-200 bg-amber-500' : 'border-indigo-300 bg-indigo-700'}`}></div>
+        <div className={`w-3/4 h-3/4 rounded-full border-4 opacity-40 ${palette.backDisc}`}></div>
+        <div className={`absolute inset-0 flex items-center justify-center ${small ? 'text-sm' : 'text-2xl'} ${palette.icon}`}>
+          {isSolar ? '☀' : '☾'}
+        </div>
       </div>
     );
   }
 
-  // Front Styling
-  const typeBorder = isSolar ? 'border-yellow-400' : 'border-cyan-300';
-  const typeBg = isSolar ? 'bg-yellow-100' : 'bg-slate-900';
-  const textColor = isSolar ? 'text-yellow-900' : 'text-cyan-50';
-  const iconColor = isSolar ? 'text-orange-500' : 'text-cyan-400';
-
   return (
     <div 
       onClick={onClick} 
-      className={`${baseClasses} ${typeBg} ${typeBorder} ${textColor}`}
+      {...a11y}
+      aria-label={label}
+      draggable={!!onDragStart}
+      onDragStart={onDragStart}
+      onDragEnd={onDragEnd}
+      className={`${baseClasses} ${palette.front}`}
     >
       {/* Top Left Icon */}
-      <div className={`absolute top-1 left-1 leading-none ${small ? 'text-xs' : 'text-xl'} ${iconColor}`}>
+      <div className={`absolute top-1 left-1 leading-none ${small ? 'text-xs' : 'text-xl'} ${palette.icon}`}>
         {isSolar ? '☀' : '☾'}
       </div>
       
@@ -66,7 +89,7 @@ const CardComponent: React.FC<CardProps> = ({ card, onClick, selected, small, hi
       </span>
 
       {/* Bottom Right Icon */}
-      <div className={`absolute bottom-1 right-1 leading-none ${small ? 'text-xs' : 'text-xl'} transform rotate-180 ${iconColor}`}>
+      <div className={`absolute bottom-1 right-1 leading-none ${small ? 'text-xs' : 'text-xl'} transform rotate-180 ${palette.icon}`}>
         {isSolar ? '☀' : '☾'}
       </div>
       
@@ -1,22 +1,34 @@
-import React from 'react';
-import { ClockSegment, Card, ClockDefinition } from '../types';
+import React, { useState } from 'react';
+import { CardType, ClockSegment, ClockDefinition, SegmentResult } from '../types';
+import { TOTAL_SEGMENTS } from '../constants';
 import CardComponent from './CardComponent';
+import { useTheme } from '../utils/theme';
+import { formatPhrase, localizeClock, rulePhrase, useI18n } from '../utils/i18n';
 
 interface ClockProps {
   segments: ClockSegment[];
   onSegmentClick: (index: number) => void;
+  onSegmentDrop?: (index: number) => void; // Set while a dragged hand card may be dropped
   highlightedIndex?: number | null;
+  legality?: boolean[] | null; // Per slot, for the card being held: shades legal and illegal targets
   definition: ClockDefinition;
   revealAll: boolean; 
   resolutionStep: number;
-  resolutionResults: {index: number, passed: boolean, message?: string}[];
+  resolutionResults: SegmentResult[];
 }
 
-const Clock: React.FC<ClockProps> = ({ segments, onSegmentClick, highlightedIndex, definition, resolutionStep, resolutionResults }) => {
-  const handRotation = -30;
+const Clock: React.FC<ClockProps> = ({ segments, onSegmentClick, onSegmentDrop, highlightedIndex, legality, definition: rawDefinition, revealAll, resolutionStep, resolutionResults }) => {
+  const [dropTarget, setDropTarget] = useState<number | null>(null);
+  const theme = useTheme();
+  const { locale, t } = useI18n();
+  const definition = localizeClock(rawDefinition, locale);
+
+  // Segment i sits at i * 60deg; the hand rests just before the starting segment
+  const segmentAngle = 360 / TOTAL_SEGMENTS;
+  const handRotation = definition.startingSegmentIndex * segmentAngle - segmentAngle / 2;
 
   return (
-    <div className="relative w-[340px] h-[340px] md:w-[500px] md:h-[500px] mx-auto rounded-full border-4 border-gold-dim bg-void-light bg-opacity-30 shadow-2xl backdrop-blur-sm">
+    <div role="group" aria-label={t('clock.group', { name: definition.name })} className="relative w-[340px] h-[340px] md:w-[500px] md:h-[500px] mx-auto rounded-full border-4 border-gold-dim bg-void-light bg-opacity-30 shadow-2xl backdrop-blur-sm">
       {/* Center Info */}
       <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 text-center w-32 md:w-48 text-parchment z-0 opacity-40 pointer-events-none">
          <div className="text-4xl md:text-6xl font-serif text-gold">{definition.chapter}</div>
@@ -35,27 +47,67 @@ const Clock: React.FC<ClockProps> = ({ segments, onSegmentClick, highlightedInde
 
       {/* Segments */}
       {segments.map((segment, i) => {
-        const rotation = i * 60;
+        const rotation = i * segmentAngle;
         const isResolving = resolutionStep >= 0;
-        const revealed = isResolving && i <= resolutionStep;
+        // Resolution walks clockwise from the hand, not from slot 1
+        const resolutionOrder = (i - definition.startingSegmentIndex + TOTAL_SEGMENTS) % TOTAL_SEGMENTS;
+        const revealed = revealAll || (isResolving && resolutionOrder <= resolutionStep);
         const result = resolutionResults.find(r => r.index === i);
+        const legal = legality ? legality[i] : null;
+        const canDrop = !!onSegmentDrop && legal !== false;
+        // Everything a sighted player can read off the slot
+        const shown = segment.cards.filter(c => revealed || c.isFaceUp);
+        const failure = result && !result.passed ? formatPhrase(t, rulePhrase(result)) : '';
+        const label = [
+          t('clock.slot', { slot: i + 1 }),
+          definition.visualHints?.[i],
+          segment.cards.length === 0 ? t('clock.empty') : t('clock.cards', { count: segment.cards.length }),
+          shown.length > 0 && t('clock.showing', {
+            cards: shown.map(c => t('card.label', { type: { key: c.type === CardType.SOLAR ? 'card.SOLAR' : 'card.LUNAR' }, value: c.value })).join(', '),
+          }),
+          revealed && segment.cards.length > 0 && t('clock.sum', { sum: segment.cards.reduce((sum, c) => sum + c.value, 0) }),
+          legal === true && t('clock.allowed'),
+          legal === false && t('clock.notAllowed'),
+          result && (result.passed ? t('clock.holds') : t('clock.breaks', { reason: failure })),
+        ].filter(Boolean).join(', ');
 
         return (
           <div
             key={i}
             onClick={() => onSegmentClick(i)}
+            onDragOver={e => { if (canDrop) e.preventDefault(); }}
+            onDragEnter={() => { if (canDrop) setDropTarget(i); }}
+            onDragLeave={() => setDropTarget(t => (t === i ? null : t))}
+            onDrop={e => {
+                e.preventDefault();
+                setDropTarget(null);
+                if (canDrop) onSegmentDrop!(i);
+            }}
             className="absolute top-0 left-0 w-full h-full pointer-events-none"
             style={{ transform: `rotate(${rotation}deg)` }}
           >
             <div 
+              role="button"
+              tabIndex={0}
+              aria-label={label}
+              aria-disabled={legal === false}
+              onKeyDown={e => {
+                  if (e.key === 'Enter' || e.key === ' ') {
+                      e.preventDefault();
+                      onSegmentClick(i);
+                  }
+              }}
               className={`
                 absolute top-[2%] left-1/2 transform -translate-x-1/2 
                 w-24 h-40 md:w-28 md:h-48
                 border-2 rounded-xl pointer-events-auto
                 transition-all duration-300 cursor-pointer
                 flex flex-col items-center justify-start pt-6 overflow-visible
-                ${highlightedIndex === i ? 'border-blue-400 bg-blue-900 bg-opacity-30' : 'border-dashed border-gray-600 hover:bg-white hover:bg-opacity-5'}
-                ${result ? (result.passed ? 'border-green-500 bg-green-900 bg-opacity-20' : 'border-red-500 bg-red-900 bg-opacity-20') : ''}
+                ${result ? (result.passed ? theme.pass : `border-4 border-double ${theme.fail}`)
+                    : highlightedIndex === i || dropTarget === i ? 'border-blue-400 bg-blue-900 bg-opacity-30'
+                    : legal === true ? `border-dashed ${theme.legal}`
+                    : legal === false ? `border-dashed ${theme.illegal} opacity-50 cursor-not-allowed`
+                    : 'border-dashed border-gray-600 hover:bg-white hover:bg-opacity-5'}
               `}
             >
                {/* Visual Hint */}
@@ -103,15 +155,15 @@ const Clock: React.FC<ClockProps> = ({ segments, onSegmentClick, highlightedInde
                    <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 z-[100] animate-bounce w-full flex flex-col items-center pointer-events-none">
                         <div className="bg-black bg-opacity-70 rounded-full p-2 mb-1">
                             {result.passed ? (
-                                <div className="text-3xl text-green-400 leading-none">✓</div>
+                                <div className={`text-3xl leading-none ${theme.passMark}`}>✓</div>
                             ) : (
-                                <div className="text-3xl text-red-500 leading-none">✗</div>
+                                <div className={`text-3xl leading-none ${theme.failMark}`}>✗</div>
                             )}
                         </div>
                         {/* Show Failure Message */}
-                        {!result.passed && result.message && (
-                            <div className="bg-red-900 text-white text-[10px] px-2 py-1 rounded border border-red-500 shadow-lg text-center max-w-[120px] break-words">
-                                {result.message}
+                        {!result.passed && (
+                            <div className={`text-[10px] px-2 py-1 rounded border shadow-lg text-center max-w-[120px] break-words ${theme.failNote}`}>
+                                {failure}
                             </div>
                         )}
                    </div>
@@ -0,0 +1,100 @@
+import React, { useMemo, useState } from 'react';
+import { GamePhase } from '../types';
+import { SavedReplay, buildReplay, describeEntry, findBreakingStep } from '../utils/replay';
+import { useI18n } from '../utils/i18n';
+import Clock from './Clock';
+import CardComponent from './CardComponent';
+
+interface ReplayViewerProps {
+  replay: SavedReplay;
+  onClose: () => void;
+}
+
+// Minutes and seconds since the deal
+const formatOffset = (ms: number) => {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const ReplayViewer: React.FC<ReplayViewerProps> = ({ replay, onClose }) => {
+  const steps = useMemo(() => buildReplay(replay.seed, replay.log), [replay]);
+  const breakingStep = useMemo(() => {
+    const last = steps[steps.length - 1];
+    return last && last.state.outcome === 'DEFEAT' ? findBreakingStep(steps) : -1;
+  }, [steps]);
+  const i18n = useI18n();
+  const { t } = i18n;
+  const texts = useMemo(() => steps.map(s => describeEntry(s.entry, s.state, i18n)), [steps, i18n]);
+  const [index, setIndex] = useState(0);
+
+  if (steps.length === 0) return null;
+  const step = steps[index];
+  const { state } = step;
+  const dealtAt = steps[0].entry.at;
+  const playedSlot = step.entry.action.type === 'PlayCard' ? step.entry.action.segmentIndex : null;
+
+  return (
+    <div className="fixed inset-0 z-[200] bg-void bg-opacity-95 flex flex-col md:flex-row gap-4 p-4 text-parchment overflow-auto">
+      <div className="flex-1 flex flex-col items-center gap-4">
+        <div className="flex items-center gap-2">
+          <button onClick={() => setIndex(0)} disabled={index === 0} className="px-3 py-1 rounded border border-gray-600 disabled:opacity-40">⏮</button>
+          <button onClick={() => setIndex(i => i - 1)} disabled={index === 0} className="px-3 py-1 rounded border border-gray-600 disabled:opacity-40">◀</button>
+          <span className="font-mono text-sm w-20 text-center">{index + 1} / {steps.length}</span>
+          <button onClick={() => setIndex(i => i + 1)} disabled={index === steps.length - 1} className="px-3 py-1 rounded border border-gray-600 disabled:opacity-40">▶</button>
+          <button onClick={() => setIndex(steps.length - 1)} disabled={index === steps.length - 1} className="px-3 py-1 rounded border border-gray-600 disabled:opacity-40">⏭</button>
+        </div>
+        <div className={`text-sm ${index === breakingStep ? 'text-red-400 font-bold' : 'text-gold'}`}>{texts[index]}</div>
+
+        <Clock
+          segments={state.clockSegments}
+          onSegmentClick={() => {}}
+          highlightedIndex={playedSlot}
+          definition={state.clock}
+          revealAll
+          resolutionStep={state.phase === GamePhase.RESOLUTION ? state.resolutionStep : -1}
+          resolutionResults={state.resolutionResults}
+        />
+
+        {/* Every hand, face up */}
+        <div className="flex flex-wrap justify-center gap-4">
+          {state.players.map((p, i) => (
+            <div key={p.id} className={`flex flex-col items-center px-2 py-1 rounded border ${state.phase === GamePhase.PLACEMENT && i === state.currentPlayerIndex ? 'border-gold' : 'border-gray-700'}`}>
+              <span className="text-xs font-bold text-gray-300">{p.name}</span>
+              <div className="flex gap-1 mt-1 min-h-[3.5rem]">
+                {p.hand.map(card => <CardComponent key={card.id} card={card} small />)}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="md:w-80 flex flex-col gap-2">
+        <div className="flex justify-between items-center">
+          <h3 className="text-gold font-serif text-lg">{t('replay.log')}</h3>
+          <button onClick={onClose} className="bg-gold text-void px-3 py-1 rounded font-bold text-sm hover:bg-white">{t('replay.close')}</button>
+        </div>
+        {breakingStep !== -1 && (
+          <button onClick={() => setIndex(breakingStep)} className="text-left text-xs bg-red-900 border border-red-500 rounded px-2 py-1">
+            {steps[breakingStep].entry.action.type === 'Deal'
+              ? t('replay.neverWinnable')
+              : t('replay.brokeAt', { step: breakingStep + 1, text: texts[breakingStep] })}
+          </button>
+        )}
+        <ol className="flex-1 overflow-y-auto text-xs space-y-1">
+          {steps.map((s, i) => (
+            <li
+              key={i}
+              onClick={() => setIndex(i)}
+              className={`cursor-pointer px-2 py-1 rounded ${i === index ? 'bg-gold bg-opacity-20' : 'hover:bg-white hover:bg-opacity-5'} ${i === breakingStep ? 'text-red-400' : ''}`}
+            >
+              <span className="font-mono text-gray-500 mr-2">{formatOffset(s.entry.at - dealtAt)}</span>
+              {texts[i]}
+            </li>
+          ))}
+        </ol>
+      </div>
+    </div>
+  );
+};
+
+export default ReplayViewer;
@@ -1,7 +1,7 @@
-import { CardType, ClockDefinition, ValidationResult } from './types';
+import { Card, CardType, ClockDefinition, PlayerCountRules } from './types';
 
 // Helper to sum card values
-export const sumCards = (cards: any[]) => cards.reduce((acc, c) => acc + c.value, 0);
+export const sumCards = (cards: Card[]) => cards.reduce((acc, c) => acc + c.value, 0);
 
 export const CLOCK_DEFINITIONS: ClockDefinition[] = [
   {
@@ -16,24 +16,19 @@ export const CLOCK_DEFINITIONS: ClockDefinition[] = [
       5: "3 Cards"
     },
     segmentRules: {
-      0: (seg): ValidationResult => { // Slot 1
-         const lunarCount = seg.cards.filter(c => c.type === CardType.LUNAR).length;
-         if (lunarCount === 1 && seg.cards.length === 1) return { passed: true };
-         return { passed: false, message: `Slot 1 must have exactly 1 Lunar card.` };
-      },
-      5: (seg): ValidationResult => { // Slot 6
-         if (seg.cards.length === 3) return { passed: true };
-         return { passed: false, message: `Slot 6 must have exactly 3 cards.` };
-      }
+      0: [ // Slot 1
+        { type: 'typeCount', cardType: CardType.LUNAR, min: 1, max: 1 },
+        { type: 'cardCount', min: 1, max: 1 }
+      ],
+      5: [ // Slot 6
+        { type: 'cardCount', min: 3, max: 3 }
+      ]
     },
-    placementRestriction: (card, targetIndex, currentSegments) => {
-        // Strict enforcement for AI/Player
-        if (targetIndex === 0) {
-            if (card.type !== CardType.LUNAR) return { passed: false, message: "Slot 1 only accepts Lunar cards." };
-            if (currentSegments[0].cards.length >= 1) return { passed: false, message: "Slot 1 is full (Max 1)." };
-        }
-        return { passed: true };
-    }
+    // Strict enforcement for AI/Player
+    placementRules: [
+      { type: 'slotAccepts', segment: 0, cardType: CardType.LUNAR },
+      { type: 'slotCapacity', segment: 0, max: 1 }
+    ]
   },
   {
     id: 'c1-2',
@@ -47,15 +42,8 @@ export const CLOCK_DEFINITIONS: ClockDefinition[] = [
       3: "3 Cards"
     },
     segmentRules: {
-      2: (seg): ValidationResult => {
-        const total = sumCards(seg.cards);
-        if (total >= 8 && total <= 12) return { passed: true };
-        return { passed: false, message: `Slot 3 sum is ${total}, must be 8-12.` };
-      },
-      3: (seg): ValidationResult => {
-        if (seg.cards.length === 3) return { passed: true };
-        return { passed: false, message: `Slot 4 must have exactly 3 cards.` };
-      }
+      2: [{ type: 'sumRange', min: 8, max: 12 }],
+      3: [{ type: 'cardCount', min: 3, max: 3 }]
     }
   },
   {
@@ -71,17 +59,12 @@ export const CLOCK_DEFINITIONS: ClockDefinition[] = [
       5: "Σ 20-30"
     },
     segmentRules: {
-      5: (seg): ValidationResult => {
-         const total = sumCards(seg.cards);
-         if (total >= 20 && total <= 30) return { passed: true };
-         return { passed: false, message: `Slot 6 sum is ${total}, must be 20-30.` };
-      }
+      5: [{ type: 'sumRange', min: 20, max: 30 }]
     },
-    placementRestriction: (card, targetIndex, currentSegments, cardsPlayedTotal) => {
-       if (cardsPlayedTotal === 0 && targetIndex !== 2) return { passed: false, message: "1st card must go to Slot 3." };
-       if (cardsPlayedTotal === 1 && targetIndex !== 1) return { passed: false, message: "2nd card must go to Slot 2." };
-       return { passed: true };
-    }
+    placementRules: [
+      { type: 'nthCardToSlot', nth: 1, segment: 2 },
+      { type: 'nthCardToSlot', nth: 2, segment: 1 }
+    ]
   },
   {
     id: 'c1-4',
@@ -95,30 +78,154 @@ export const CLOCK_DEFINITIONS: ClockDefinition[] = [
       3: "1☀ 1☾"
     },
     segmentRules: {
-      3: (seg): ValidationResult => {
-         const solarCount = seg.cards.filter(c => c.type === CardType.SOLAR).length;
-         const lunarCount = seg.cards.filter(c => c.type === CardType.LUNAR).length;
-         if (solarCount === 1 && lunarCount === 1) return { passed: true };
-         return { passed: false, message: "Slot 4 must have exactly 1 Solar and 1 Lunar." };
-      }
+      3: [
+        { type: 'typeCount', cardType: CardType.SOLAR, min: 1, max: 1 },
+        { type: 'typeCount', cardType: CardType.LUNAR, min: 1, max: 1 }
+      ]
     },
-    placementRestriction: (card, targetIndex, currentSegments, cardsPlayedTotal) => {
-      if (cardsPlayedTotal === 5 && targetIndex !== 0) return { passed: false, message: "6th card must go to Slot 1." };
-      
+    placementRules: [
+      { type: 'nthCardToSlot', nth: 6, segment: 0 },
       // Strict enforcement for Slot 4
-      if (targetIndex === 3) {
-          const currentCards = currentSegments[3].cards;
-          if (currentCards.length >= 2) return { passed: false, message: "Slot 4 is full." };
-          
-          const hasSolar = currentCards.some(c => c.type === CardType.SOLAR);
-          const hasLunar = currentCards.some(c => c.type === CardType.LUNAR);
-          
-          if (hasSolar && card.type === CardType.SOLAR) return { passed: false, message: "Slot 4 already has a Solar card." };
-          if (hasLunar && card.type === CardType.LUNAR) return { passed: false, message: "Slot 4 already has a Lunar card." };
-      }
-      return { passed: true };
+      { type: 'slotCapacity', segment: 3, max: 2 },
+      { type: 'slotCapacity', segment: 3, max: 1, cardType: CardType.SOLAR },
+      { type: 'slotCapacity', segment: 3, max: 1, cardType: CardType.LUNAR }
+    ]
+  },
+  // --- Chapter 2: parity, linked slots, moved hand, no face-up ---
+  {
+    id: 'c2-1',
+    chapter: 2,
+    name: 'Clock V',
+    description: 'Hand at Slot 4. Slot 1: Even cards only. Slot 6: Exactly 2 cards.',
+    startingSegmentIndex: 3,
+    maxTotal: 999,
+    visualHints: {
+      0: "Even",
+      5: "2 Cards"
+    },
+    segmentRules: {
+      0: [{ type: 'parity', parity: 'EVEN' }],
+      5: [{ type: 'cardCount', min: 2, max: 2 }]
     }
+  },
+  {
+    id: 'c2-2',
+    chapter: 2,
+    name: 'Clock VI',
+    description: 'Slot 2: Matching parity. Slot 4: Same sum as Slot 3.',
+    startingSegmentIndex: 0,
+    maxTotal: 999,
+    visualHints: {
+      1: "Same Parity",
+      3: "Σ = Slot 3"
+    },
+    segmentRules: {
+      1: [{ type: 'parity' }],
+      3: [{ type: 'sumEquals', segment: 2 }]
+    }
+  },
+  {
+    id: 'c2-3',
+    chapter: 2,
+    name: 'Clock VII',
+    description: 'No face-up cards. Slot 3: Odd cards only. Slot 6: Sum 25-40.',
+    startingSegmentIndex: 0,
+    maxTotal: 999,
+    faceUpLimit: 0,
+    visualHints: {
+      2: "Odd",
+      5: "Σ 25-40"
+    },
+    segmentRules: {
+      2: [{ type: 'parity', parity: 'ODD' }],
+      5: [{ type: 'sumRange', min: 25, max: 40 }]
+    }
+  },
+  {
+    id: 'c2-4',
+    chapter: 2,
+    name: 'Clock VIII',
+    description: 'Hand at Slot 3. Slot 1: Solar only. All slot sums different.',
+    startingSegmentIndex: 2,
+    maxTotal: 999,
+    visualHints: {
+      0: "☀ Only"
+    },
+    globalRules: [{ type: 'distinctSums' }],
+    placementRules: [
+      { type: 'slotAccepts', segment: 0, cardType: CardType.SOLAR }
+    ]
+  },
+  // --- Chapter 3: combinations ---
+  {
+    id: 'c3-1',
+    chapter: 3,
+    name: 'Clock IX',
+    description: 'Hand at Slot 5. No face-up cards. Slot 2: 2 odd cards. Slot sums within 20 of each other.',
+    startingSegmentIndex: 4,
+    maxTotal: 999,
+    faceUpLimit: 0,
+    visualHints: {
+      1: "2 Odd"
+    },
+    segmentRules: {
+      1: [
+        { type: 'cardCount', min: 2, max: 2 },
+        { type: 'parity', parity: 'ODD' }
+      ]
+    },
+    globalRules: [{ type: 'maxSpread', max: 20 }]
+  },
+  {
+    id: 'c3-2',
+    chapter: 3,
+    name: 'Clock X',
+    description: '1st Card -> Slot 4. Slot 5: Same sum as Slot 4. Slot 6: 3 cards, matching parity.',
+    startingSegmentIndex: 0,
+    maxTotal: 999,
+    visualHints: {
+      3: "1st Card",
+      4: "Σ = Slot 4",
+      5: "3 Same Parity"
+    },
+    segmentRules: {
+      4: [{ type: 'sumEquals', segment: 3 }],
+      5: [
+        { type: 'cardCount', min: 3, max: 3 },
+        { type: 'parity' }
+      ]
+    },
+    placementRules: [
+      { type: 'nthCardToSlot', nth: 1, segment: 3 }
+    ]
   }
 ];
 
-export const TOTAL_SEGMENTS = 6;
\ No newline at end of file
+export const TOTAL_SEGMENTS = 6;
+
+// Every table size the game deals for. 12 cards reach the clock, except at
+// five where 12 does not split evenly and everyone holds 2 (10 in play).
+export const PLAYER_COUNT_RULES: Record<number, PlayerCountRules> = {
+  2: { cardsPerPlayer: 6, faceUpTokens: 2 },
+  3: { cardsPerPlayer: 4, faceUpTokens: 3 },
+  4: { cardsPerPlayer: 3, faceUpTokens: 4 },
+  5: { cardsPerPlayer: 2, faceUpTokens: 5 },
+};
+
+export const SUPPORTED_PLAYER_COUNTS = Object.keys(PLAYER_COUNT_RULES).map(Number);
+
+export const isSupportedPlayerCount = (count: number) => SUPPORTED_PLAYER_COUNTS.includes(count);
+
+export const getPlayerCountRules = (count: number): PlayerCountRules => {
+  if (!isSupportedPlayerCount(count)) throw new Error(`Unsupported player count: ${count}.`);
+  return PLAYER_COUNT_RULES[count];
+};
+
+export const getClockDefinition = (id: string): ClockDefinition =>
+  CLOCK_DEFINITIONS.find(c => c.id === id) || CLOCK_DEFINITIONS[0];
+
+// Clocks grouped by chapter, in chapter order
+export const getClocksByChapter = (clocks: ClockDefinition[] = CLOCK_DEFINITIONS) => {
+  const chapters = Array.from(new Set(clocks.map(c => c.chapter))).sort((a, b) => a - b);
+  return chapters.map(chapter => ({ chapter, clocks: clocks.filter(c => c.chapter === chapter) }));
+};
@@ -0,0 +1,103 @@
+// WebSocket relay for tables whose network blocks WebRTC.
+//
+//   npm run relay            (PORT=8787 by default)
+//
+// Then open the game with ?transport=relay (or &relay=ws://host:port when the
+// relay runs elsewhere). The relay never looks inside game messages: it only
+// maps ids to sockets and forwards frames of one connection between its two ends.
+//
+// Frames (JSON, one per WebSocket message):
+//   client -> relay  { op: 'register', id | null }
+//                    { op: 'connect', connId, to }
+//                    { op: 'data', connId, data }
+//                    { op: 'close', connId }
+//   relay -> client  { op: 'registered', id }
+//                    { op: 'connection', connId, from }   (to the callee)
+//                    { op: 'open', connId }               (to the caller)
+//                    { op: 'data', connId, data }
+//                    { op: 'close', connId }
+//                    { op: 'error', type, message, connId? }
+
+import { WebSocketServer } from 'ws';
+
+const port = Number(process.env.PORT || 8787);
+const server = new WebSocketServer({ port });
+
+const sockets = new Map(); // id -> socket
+const links = new Map(); // connId -> { caller, callee } ids
+
+const send = (id, payload) => {
+  const socket = sockets.get(id);
+  if (socket && socket.readyState === socket.OPEN) socket.send(JSON.stringify(payload));
+};
+
+const otherEnd = (link, id) => (link.caller === id ? link.callee : link.caller);
+
+const randomId = () => {
+  let id;
+  do id = 'relay-' + Math.random().toString(36).slice(2, 10);
+  while (sockets.has(id));
+  return id;
+};
+
+server.on('connection', socket => {
+  let myId = null;
+
+  const fail = (type, message, connId) => socket.send(JSON.stringify({ op: 'error', type, message, connId }));
+
+  socket.on('message', raw => {
+    let msg;
+    try {
+      msg = JSON.parse(raw.toString());
+    } catch {
+      fail('bad-frame', 'Frames must be JSON.');
+      return;
+    }
+
+    if (msg.op === 'register') {
+      if (myId) return fail('bad-frame', 'Already registered.');
+      if (msg.id && sockets.has(msg.id)) return fail('unavailable-id', `${msg.id} is taken.`);
+      myId = msg.id || randomId();
+      sockets.set(myId, socket);
+      socket.send(JSON.stringify({ op: 'registered', id: myId }));
+      return;
+    }
+    if (!myId) return fail('bad-frame', 'Register first.');
+
+    const link = links.get(msg.connId);
+    switch (msg.op) {
+      case 'connect':
+        if (!sockets.has(msg.to)) return fail('peer-unavailable', `Could not reach ${msg.to}.`, msg.connId);
+        if (link) return fail('bad-frame', 'Connection id in use.', msg.connId);
+        links.set(msg.connId, { caller: myId, callee: msg.to });
+        send(msg.to, { op: 'connection', connId: msg.connId, from: myId });
+        send(myId, { op: 'open', connId: msg.connId });
+        break;
+      case 'data':
+        if (link && (link.caller === myId || link.callee === myId)) {
+          send(otherEnd(link, myId), { op: 'data', connId: msg.connId, data: msg.data });
+        }
+        break;
+      case 'close':
+        if (link && (link.caller === myId || link.callee === myId)) {
+          links.delete(msg.connId);
+          send(otherEnd(link, myId), { op: 'close', connId: msg.connId });
+        }
+        break;
+      default:
+        fail('bad-frame', `Unknown op "${msg.op}".`);
+    }
+  });
+
+  socket.on('close', () => {
+    if (!myId) return;
+    sockets.delete(myId);
+    links.forEach((link, connId) => {
+      if (link.caller !== myId && link.callee !== myId) return;
+      links.delete(connId);
+      send(otherEnd(link, myId), { op: 'close', connId });
+    });
+  });
+});
+
+server.on('listening', () => console.log(`Take Time relay listening on ws://localhost:${port}`));
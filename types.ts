@@ -16,47 +16,238 @@ export interface ClockSegment {
   cards: Card[];
 }
 
+export type BotLevel = 'EASY' | 'NORMAL' | 'HARD';
+
 export interface Player {
   id: string;
   name: string;
   hand: Card[];
   isLocal: boolean;
+  botLevel?: BotLevel; // Only set on bot seats
+  away?: boolean; // Human seat whose connection dropped
+  standIn?: BotLevel; // A bot is playing for the away human until they return
 }
 
 export enum GamePhase {
+  LOBBY = 'LOBBY',
   SETUP = 'SETUP',
   DISCUSSION = 'DISCUSSION',
+  START_PLAYER_SELECTION = 'START_PLAYER_SELECTION',
   PLACEMENT = 'PLACEMENT',
   RESOLUTION = 'RESOLUTION',
 }
 
+// Values for a message, e.g. { slot: 3, sum: 14, min: 8, max: 12 }. Slots are
+// counted from 1, as the players see them; open bounds are left out.
+export type MessageParams = Record<string, string | number>;
+
+// Why a rule failed. Failures are codes and parameters rather than sentences,
+// so every screen words them in its own language (see utils/i18n.ts).
+export type RuleCode =
+  | 'CARD_COUNT' // slot, count, min, max
+  | 'SUM_OUT_OF_RANGE' // slot, sum, min, max
+  | 'TYPE_COUNT' // slot, cardType, count, min, max
+  | 'PARITY' // slot, parity
+  | 'MIXED_PARITY' // slot
+  | 'SUM_NOT_EQUAL' // slot, sum, other, otherSum
+  | 'TOTAL_OUT_OF_RANGE' // total, min, max
+  | 'SHARED_SUM' // slot, other, sum
+  | 'SPREAD_TOO_WIDE' // spread, max
+  | 'NTH_CARD_TO_SLOT' // nth, slot
+  | 'SLOT_ACCEPTS' // slot, cardType
+  | 'SLOT_TYPE_FULL' // slot, cardType, max
+  | 'SLOT_FULL' // slot, max
+  | 'EMPTY_SLOT' // slot
+  | 'NOT_ASCENDING' // slot, sum, previous
+  | 'OVER_MAX_TOTAL'; // slot, sum, max
+
 export interface ValidationResult {
   passed: boolean;
-  message?: string;
+  code?: RuleCode; // Set on failures
+  params?: MessageParams;
+}
+
+// Which check sank a slot during resolution
+export type SegmentFailure = 'EMPTY' | 'SEGMENT_RULE' | 'ASCENDING' | 'MAX_TOTAL';
+
+// Per-slot outcome shown on the clock while resolving
+export interface SegmentResult extends ValidationResult {
+  index: number;
+  failedRule?: SegmentFailure;
+}
+
+// Full verdict for a clock: slot results in resolution order (from the hand),
+// then any failed global rules
+export interface ClockResolution {
+  segments: SegmentResult[];
+  global: ValidationResult[];
+  passed: boolean;
 }
 
+// --- Declarative clock rules ---
+// Plain JSON so clocks can be loaded from files and sent over the wire.
+// Bounds are inclusive; omit `min` or `max` for an open range.
+
+// Checked against a single slot once the clock is resolved
+export type Parity = 'EVEN' | 'ODD';
+
+export type SegmentRule =
+  | { type: 'cardCount'; min?: number; max?: number }
+  | { type: 'sumRange'; min?: number; max?: number }
+  | { type: 'typeCount'; cardType: CardType; min?: number; max?: number }
+  | { type: 'parity'; parity?: Parity } // without `parity` the cards only have to match each other
+  | { type: 'sumEquals'; segment: number }; // this slot's sum must equal another slot's sum
+
+// Checked against the whole clock once it is resolved
+export type GlobalRule =
+  | { type: 'totalSum'; min?: number; max?: number }
+  | { type: 'distinctSums' } // no two slots share a sum
+  | { type: 'maxSpread'; max: number }; // largest slot sum minus smallest
+
+// Checked BEFORE a card is placed
+export type PlacementRule =
+  | { type: 'nthCardToSlot'; nth: number; segment: number } // nth is 1-based
+  | { type: 'slotAccepts'; segment: number; cardType: CardType }
+  | { type: 'slotCapacity'; segment: number; max: number; cardType?: CardType };
+
 export interface ClockDefinition {
   id: string;
   name: string;
   chapter: number;
   description: string;
   startingSegmentIndex: number; // The "Hand" position
-  maxTotal?: number; 
+  maxTotal?: number; // Upper bound for any single slot sum
+  faceUpLimit?: number; // Overrides the one-token-per-player default (0 = no face-up cards)
   
   // Visual hints to display on the clock slots (e.g. "Sum 8-12")
   visualHints?: { [segmentIndex: number]: string };
 
-  // Validation Logic
-  segmentRules?: { 
-    [segmentIndex: number]: (segment: ClockSegment) => ValidationResult 
-  };
-  globalRules?: (segments: ClockSegment[]) => ValidationResult;
+  // Validation Logic (all rules of a slot must pass)
+  segmentRules?: { [segmentIndex: number]: SegmentRule[] };
+  globalRules?: GlobalRule[];
   
   // Placement Restriction (Runs BEFORE placing a card)
-  placementRestriction?: (
-    card: Card, 
-    targetSegmentIndex: number, 
-    currentSegments: ClockSegment[], 
-    cardsPlayedTotal: number
-  ) => ValidationResult;
-}
\ No newline at end of file
+  placementRules?: PlacementRule[];
+}
+
+// Authoritative match state. Everything here is plain data so it can be
+// persisted and sent over the network as-is.
+export type MatchOutcome = 'VICTORY' | 'DEFEAT';
+
+// Announcement for the whole table, worded by each screen
+export type SystemMessageCode = 'STARTS' | 'RESOLVING' | 'TAKEN_BACK' | 'TAKE_BACK_DECLINED' | 'VICTORY' | 'DEFEAT';
+
+export interface SystemMessage {
+  code: SystemMessageCode;
+  params?: MessageParams;
+  rule?: ValidationResult; // The global rule that lost the match
+}
+
+// The most recent play, while it can still be taken back
+export interface LastPlay {
+  playerId: string;
+  segmentIndex: number; // The card is the top one of this slot
+  handIndex: number; // Where it goes back into the hand
+}
+
+// A take-back waiting on the other humans at the table
+export interface TakeBackVote {
+  playerId: string;
+  accepted: string[];
+}
+
+export interface GameState {
+  matchId: string;
+  seed: number; // Drives the shuffle and bot choices
+  dealMode: DealMode;
+  phase: GamePhase;
+  clock: ClockDefinition;
+  clockSegments: ClockSegment[];
+  players: Player[];
+  currentPlayerIndex: number;
+  faceUpTokensUsed: number;
+  cardsPlayedCount: number;
+  resolutionStep: number;
+  resolutionResults: SegmentResult[];
+  outcome: MatchOutcome | null; // Set once the last slot is resolved
+  systemMessage: SystemMessage | null;
+  allowTakeBacks: boolean;
+  lastPlay: LastPlay | null;
+  takeBack: TakeBackVote | null;
+}
+
+export interface Seat {
+  id: string;
+  name: string;
+  isLocal: boolean;
+  botLevel?: BotLevel;
+}
+
+export type GameAction =
+  | { type: 'Deal'; matchId: string; clock: ClockDefinition; seats: Seat[]; seed: number; dealMode: DealMode; shuffle?: number; allowTakeBacks?: boolean } // shuffle: from pickDeal
+  | { type: 'ClaimStart'; playerId: string }
+  | { type: 'SetPresence'; playerId: string; away: boolean; standIn?: BotLevel } // standIn only while away
+  | { type: 'PlayCard'; playerId: string; cardId: string; segmentIndex: number; faceUp: boolean }
+  | { type: 'RequestTakeBack'; playerId: string } // Only for the last play, by whoever made it
+  | { type: 'VoteTakeBack'; playerId: string; accept: boolean }
+  | { type: 'ResolveStep' }
+  | { type: 'ClearMessage' }
+  | { type: 'Reset' };
+
+export type MoveRejectionReason =
+  | 'WRONG_PHASE'
+  | 'UNKNOWN_PLAYER'
+  | 'NOT_YOUR_TURN'
+  | 'CARD_NOT_IN_HAND'
+  | 'INVALID_SEGMENT'
+  | 'PLACEMENT_RESTRICTED'
+  | 'NO_FACE_UP_TOKENS'
+  | 'TAKE_BACK_PENDING';
+
+// A PLACEMENT_RESTRICTED rejection also carries the placement rule's code
+export interface MoveCheck extends ValidationResult {
+  reason?: MoveRejectionReason;
+}
+
+// --- Solver ---
+
+export interface SolverResult {
+  solvable: boolean;
+  solutionCount: number;
+  exhaustive: boolean; // false when the search stopped at the solution cap
+  example: ClockSegment[] | null; // One winning layout
+  startPlayerIndex: number | null; // Who has to start for `example` to be playable
+}
+
+// How the host picks a deal: any shuffle, or only solvable ones (harder modes
+// compare several solvable deals and keep the one with the fewest solutions)
+export type DealMode = 'RANDOM' | 'SOLVABLE' | 'HARD' | 'EXPERT';
+
+// Rules that change with the size of the table
+export interface PlayerCountRules {
+  cardsPerPlayer: number;
+  faceUpTokens: number; // Shared by the table; a clock's own faceUpLimit still wins
+}
+
+// Everything needed to reproduce a deal; shared as a short deal code
+export interface DealSpec {
+  clockId: string;
+  playerCount: number;
+  seed: number;
+  mode: DealMode;
+}
+
+// --- Campaign ---
+
+export interface ClockProgress {
+  attempts: number;
+  wins: number;
+  // Best winning run so far: fewest face-up tokens spent
+  bestRun?: { faceUpTokensUsed: number; playerCount: number; wonAt: number };
+}
+
+export interface CampaignProgress {
+  playerId: string;
+  clocks: { [clockId: string]: ClockProgress };
+  lastMatchId?: string; // Guards against recording the same match twice (e.g. after a reload)
+}
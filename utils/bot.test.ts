@@ -0,0 +1,52 @@
+import { describe, expect, it, vi } from 'vitest';
+import { BotLevel, GameState, Seat } from '../types';
+import { getClockDefinition } from '../constants';
+import { createLobbyState, reduce, validateMove } from './gameEngine';
+import { solvePosition } from './solver';
+import { createRng } from './random';
+import { chooseBotMove, NODE_BUDGET } from './bot';
+
+// Same solver, but the budget test needs to see what each search was given
+vi.mock('./solver', async importOriginal => {
+  const actual = await importOriginal<typeof import('./solver')>();
+  return { ...actual, solvePosition: vi.fn(actual.solvePosition) };
+});
+
+const LEVELS: BotLevel[] = ['EASY', 'NORMAL', 'HARD'];
+
+const dealt = (level: BotLevel, seed = 42, ids = ['b1', 'b2', 'b3']): GameState => {
+  const seats: Seat[] = ids.map(id => ({ id, name: id, isLocal: false, botLevel: level }));
+  const state = reduce(createLobbyState(), {
+    type: 'Deal', matchId: 'm1', clock: getClockDefinition('c1-2'), seats, seed, dealMode: 'RANDOM',
+  });
+  return reduce(state, { type: 'ClaimStart', playerId: 'b1' });
+};
+
+describe('chooseBotMove', () => {
+  LEVELS.forEach(level => {
+    it(`${level} picks a legal move on a seeded deal`, () => {
+      let state = dealt(level);
+      // A few turns in, so the bot also has to read cards already on the clock
+      for (let turn = 0; turn < 3; turn++) {
+        const botId = state.players[state.currentPlayerIndex].id;
+        const move = chooseBotMove(state, botId, level, createRng(turn + 1));
+        expect(move).not.toBeNull();
+        const action = { type: 'PlayCard' as const, playerId: botId, cardId: move!.card.id, segmentIndex: move!.segmentIndex, faceUp: move!.faceUp };
+        expect(validateMove(state, action), `${level} turn ${turn + 1}`).toEqual({ passed: true });
+        state = reduce(state, action);
+      }
+    });
+  });
+
+  it('keeps a whole decision within NODE_BUDGET', () => {
+    const search = vi.mocked(solvePosition);
+    LEVELS.forEach(level => {
+      search.mockClear();
+      // Two players hold six cards each: the most candidate moves a bot ever weighs
+      chooseBotMove(dealt(level, 7, ['b1', 'b2']), 'b1', level, createRng(3));
+      expect(search).toHaveBeenCalled();
+      const spent = search.mock.calls.reduce((acc, [, , options]) => acc + options!.maxNodes!, 0);
+      expect(spent, level).toBeLessThanOrEqual(NODE_BUDGET);
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import { BotLevel, Card, CardType, ClockSegment, GameState } from '../types';
+import { TOTAL_SEGMENTS } from '../constants';
+import { findBestBotMove, isValidMove } from './gameUtils';
+import { getFaceUpLimit } from './gameEngine';
+import { solvePosition } from './solver';
+import { Rng } from './random';
+
+// Cooperative bot. It only uses what a player at the table could know: its own
+// cards, face-up values, and the type (card back) of everything else. Unknown
+// values are sampled from the cards of that type it has not seen, and each legal
+// move is scored by how often the clock stays solvable across those samples.
+
+export interface BotMove {
+  card: Card;
+  segmentIndex: number;
+  faceUp: boolean;
+}
+
+// Sampled worlds per decision. EASY looks at a single guess, so it often misreads the table
+const WORLDS: Record<BotLevel, number> = { EASY: 1, NORMAL: 16, HARD: 48 };
+// Solutions counted per world. One settles whether the world is still winnable;
+// HARD counts a few more, since more solutions left = more room for teammates' unknown cards
+const SOLUTION_CAP: Record<BotLevel, number> = { EASY: 1, NORMAL: 1, HARD: 50 };
+// Search budget per decision, split over the worlds and candidate moves, so a bot
+// turn stays short on slow devices
+export const NODE_BUDGET = 1200000;
+// Below this a world rarely settles; with many candidate moves the bot samples fewer worlds instead
+const MIN_WORLD_NODES = 1000;
+
+interface World {
+  hands: Card[][];
+  placed: ClockSegment[];
+}
+
+const isKnownTo = (card: Card, botId: string) => card.isFaceUp || card.ownerId === botId;
+
+// Fills in every card the bot cannot see with a value it has not seen for that type
+const sampleWorld = (state: GameState, botId: string, rng: Rng): World => {
+  const seen: { [type: string]: Set<number> } = { [CardType.SOLAR]: new Set(), [CardType.LUNAR]: new Set() };
+  const bot = state.players.find(p => p.id === botId);
+  bot?.hand.forEach(c => seen[c.type].add(c.value));
+  state.clockSegments.forEach(seg => seg.cards.forEach(c => {
+    if (isKnownTo(c, botId)) seen[c.type].add(c.value);
+  }));
+
+  const pools: { [type: string]: number[] } = {};
+  [CardType.SOLAR, CardType.LUNAR].forEach(type => {
+    const pool = Array.from({ length: 12 }, (_, i) => i + 1).filter(v => !seen[type].has(v));
+    for (let i = pool.length - 1; i > 0; i--) {
+      const j = Math.floor(rng() * (i + 1));
+      [pool[i], pool[j]] = [pool[j], pool[i]];
+    }
+    pools[type] = pool;
+  });
+  const guess = (card: Card): Card => ({ ...card, value: pools[card.type].pop() ?? card.value });
+
+  return {
+    hands: state.players.map(p => (p.id === botId ? p.hand : p.hand.map(guess))),
+    placed: state.clockSegments.map(seg => ({
+      ...seg,
+      cards: seg.cards.map(c => (isKnownTo(c, botId) ? c : guess(c))),
+    })),
+  };
+};
+
+// Spend the bot's own face-up token on cards teammates would badly misjudge
+const shouldPlayFaceUp = (state: GameState, botId: string, card: Card, segmentIndex: number, level: BotLevel) => {
+  if (state.faceUpTokensUsed >= getFaceUpLimit(state)) return false;
+  const alreadyUsed = state.clockSegments.some(seg => seg.cards.some(c => c.isFaceUp && c.ownerId === botId));
+  if (alreadyUsed) return false;
+  const cardsLeft = state.players.reduce((acc, p) => acc + p.hand.length, 0);
+  if (cardsLeft <= 1) return false; // nobody left to benefit
+
+  if (card.value <= 2 || card.value >= 11) return true;
+  if (level !== 'HARD') return false;
+  const rules = state.clock.segmentRules?.[segmentIndex] || [];
+  return rules.some(r => r.type === 'sumRange' || r.type === 'sumEquals');
+};
+
+export const chooseBotMove = (state: GameState, botId: string, level: BotLevel, rng: Rng): BotMove | null => {
+  const botIdx = state.players.findIndex(p => p.id === botId);
+  const bot = state.players[botIdx];
+  if (!bot || bot.hand.length === 0) return null;
+
+  const candidates: { card: Card; segmentIndex: number }[] = [];
+  bot.hand.forEach(card => {
+    for (let i = 0; i < TOTAL_SEGMENTS; i++) {
+      if (isValidMove(card, i, state.clockSegments, state.clock, state.cardsPlayedCount)) {
+        candidates.push({ card, segmentIndex: i });
+      }
+    }
+  });
+
+  // Nothing legal left: play something anyway
+  if (candidates.length === 0) {
+    const fallback = findBestBotMove(bot.hand, state.clockSegments, state.clock, state.cardsPlayedCount, rng);
+    return fallback ? { ...fallback, faceUp: false } : null;
+  }
+
+  const affordable = Math.floor(NODE_BUDGET / (candidates.length * MIN_WORLD_NODES));
+  const worlds = Array.from({ length: Math.max(1, Math.min(WORLDS[level], affordable)) }, () => sampleWorld(state, botId, rng));
+  const nextPlayerIndex = (botIdx + 1) % state.players.length;
+  const maxNodes = Math.floor(NODE_BUDGET / (worlds.length * candidates.length));
+
+  let best: { card: Card; segmentIndex: number; score: number; tieBreak: number } | null = null;
+  for (const { card, segmentIndex } of candidates) {
+    let score = 0;
+    for (const world of worlds) {
+      const result = solvePosition({
+        hands: world.hands.map((hand, p) => (p === botIdx ? hand.filter(c => c.id !== card.id) : hand)),
+        placed: world.placed.map(seg => (seg.index === segmentIndex ? { ...seg, cards: [...seg.cards, card] } : seg)),
+        cardsPlayed: state.cardsPlayedCount + 1,
+        nextPlayerIndex,
+      }, state.clock, { maxSolutions: SOLUTION_CAP[level], maxNodes });
+      // A world the budget ran out on before finding a solution may still be winnable
+      if (result.solvable) score += 1 + (result.solutionCount - 1) / SOLUTION_CAP[level];
+      else if (!result.exhaustive) score += 0.5;
+    }
+    const tieBreak = rng();
+    if (!best || score > best.score || (score === best.score && tieBreak > best.tieBreak)) {
+      best = { card, segmentIndex, score, tieBreak };
+    }
+  }
+
+  return {
+    card: best!.card,
+    segmentIndex: best!.segmentIndex,
+    faceUp: shouldPlayFaceUp(state, botId, best!.card, best!.segmentIndex, level),
+  };
+};
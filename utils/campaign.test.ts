@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { GameState, MatchOutcome } from '../types';
+import { CLOCK_DEFINITIONS } from '../constants';
+import { createLobbyState } from './gameEngine';
+import { createCampaign, getNextCampaignClock, isClockBeaten, isClockUnlocked, recordMatch } from './campaign';
+
+const [first, second, third] = CLOCK_DEFINITIONS;
+
+const finished = (clockIndex: number, outcome: MatchOutcome, matchId: string, faceUpTokensUsed = 2): GameState => ({
+  ...createLobbyState(),
+  matchId,
+  clock: CLOCK_DEFINITIONS[clockIndex],
+  outcome,
+  faceUpTokensUsed,
+  players: ['me', 'p2', 'p3'].map(id => ({ id, name: id, isLocal: id === 'me', hand: [] })),
+});
+
+describe('recordMatch', () => {
+  it('counts attempts and wins per clock', () => {
+    let progress = createCampaign('me');
+    progress = recordMatch(progress, finished(0, 'DEFEAT', 'm1'));
+    progress = recordMatch(progress, finished(0, 'VICTORY', 'm2'));
+    expect(progress.clocks[first.id]).toMatchObject({ attempts: 2, wins: 1, bestRun: { faceUpTokensUsed: 2, playerCount: 3 } });
+    expect(progress.lastMatchId).toBe('m2');
+  });
+
+  it('keeps the best run with the fewest face-up tokens', () => {
+    let progress = createCampaign('me');
+    progress = recordMatch(progress, finished(0, 'VICTORY', 'm1', 2));
+    progress = recordMatch(progress, finished(0, 'VICTORY', 'm2', 3));
+    expect(progress.clocks[first.id].bestRun?.faceUpTokensUsed).toBe(2);
+    progress = recordMatch(progress, finished(0, 'VICTORY', 'm3', 0));
+    expect(progress.clocks[first.id].bestRun?.faceUpTokensUsed).toBe(0);
+  });
+
+  it('records each match once', () => {
+    const progress = recordMatch(createCampaign('me'), finished(0, 'VICTORY', 'm1'));
+    expect(recordMatch(progress, finished(0, 'VICTORY', 'm1'))).toBe(progress);
+  });
+
+  it('ignores matches that are not over', () => {
+    const progress = createCampaign('me');
+    expect(recordMatch(progress, { ...finished(0, 'VICTORY', 'm1'), outcome: null })).toBe(progress);
+  });
+
+  it('ignores matches this player was not seated in', () => {
+    const spectator = createCampaign('watcher');
+    expect(recordMatch(spectator, finished(0, 'VICTORY', 'm1'))).toBe(spectator);
+  });
+});
+
+describe('unlocks', () => {
+  it('opens each clock once the one before it is beaten', () => {
+    let progress = createCampaign('me');
+    expect(isClockUnlocked(progress, first.id)).toBe(true);
+    expect(isClockUnlocked(progress, second.id)).toBe(false);
+
+    progress = recordMatch(progress, finished(0, 'DEFEAT', 'm1'));
+    expect(isClockUnlocked(progress, second.id)).toBe(false);
+
+    progress = recordMatch(progress, finished(0, 'VICTORY', 'm2'));
+    expect(isClockBeaten(progress, first.id)).toBe(true);
+    expect(isClockUnlocked(progress, second.id)).toBe(true);
+    expect(isClockUnlocked(progress, third.id)).toBe(false);
+  });
+
+  it('keeps unknown clocks locked', () => {
+    expect(isClockUnlocked(createCampaign('me'), 'no-such-clock')).toBe(false);
+  });
+
+  it('suggests the first clock not yet beaten, then nothing', () => {
+    let progress = createCampaign('me');
+    expect(getNextCampaignClock(progress)).toBe(first);
+    progress = recordMatch(progress, finished(0, 'VICTORY', 'm1'));
+    expect(getNextCampaignClock(progress)).toBe(second);
+
+    CLOCK_DEFINITIONS.forEach((_, i) => { progress = recordMatch(progress, finished(i, 'VICTORY', `all-${i}`)); });
+    expect(getNextCampaignClock(progress)).toBeNull();
+  });
+});
@@ -0,0 +1,74 @@
+import { CampaignProgress, ClockDefinition, GameState } from '../types';
+import { CLOCK_DEFINITIONS } from '../constants';
+
+// Campaign progress per persistent player id. Clocks unlock in
+// CLOCK_DEFINITIONS order: beating one opens the next, so each chapter opens
+// once the previous one is cleared.
+
+const storageKey = (playerId: string) => `tt_campaign_${playerId}`;
+
+export const createCampaign = (playerId: string): CampaignProgress => ({ playerId, clocks: {} });
+
+export const loadCampaign = (playerId: string): CampaignProgress => {
+  try {
+    const saved = localStorage.getItem(storageKey(playerId));
+    if (saved) return { ...createCampaign(playerId), ...JSON.parse(saved) };
+  } catch (e) {
+    console.error("Failed to load campaign", e);
+  }
+  return createCampaign(playerId);
+};
+
+export const saveCampaign = (progress: CampaignProgress) => {
+  try {
+    localStorage.setItem(storageKey(progress.playerId), JSON.stringify(progress));
+  } catch (e) {
+    console.error("Failed to save campaign", e);
+  }
+};
+
+export const isClockBeaten = (progress: CampaignProgress, clockId: string) =>
+  (progress.clocks[clockId]?.wins || 0) > 0;
+
+export const isClockUnlocked = (
+  progress: CampaignProgress,
+  clockId: string,
+  clocks: ClockDefinition[] = CLOCK_DEFINITIONS
+) => {
+  const idx = clocks.findIndex(c => c.id === clockId);
+  if (idx <= 0) return idx === 0;
+  return isClockBeaten(progress, clocks[idx - 1].id);
+};
+
+// First clock not yet beaten, or null once the campaign is complete
+export const getNextCampaignClock = (
+  progress: CampaignProgress,
+  clocks: ClockDefinition[] = CLOCK_DEFINITIONS
+): ClockDefinition | null => clocks.find(c => !isClockBeaten(progress, c.id)) || null;
+
+// Records a finished match. Returns the same object when there is nothing new to
+// record, which includes matches this player only watched (spectating, or a
+// client left out of the deal).
+export const recordMatch = (progress: CampaignProgress, state: GameState): CampaignProgress => {
+  if (!state.outcome || !state.matchId || progress.lastMatchId === state.matchId) return progress;
+  if (!state.players.some(p => p.id === progress.playerId)) return progress;
+
+  const previous = progress.clocks[state.clock.id] || { attempts: 0, wins: 0 };
+  const won = state.outcome === 'VICTORY';
+  const isBetter = won && (!previous.bestRun || state.faceUpTokensUsed < previous.bestRun.faceUpTokensUsed);
+
+  return {
+    ...progress,
+    lastMatchId: state.matchId,
+    clocks: {
+      ...progress.clocks,
+      [state.clock.id]: {
+        attempts: previous.attempts + 1,
+        wins: previous.wins + (won ? 1 : 0),
+        bestRun: isBetter
+          ? { faceUpTokensUsed: state.faceUpTokensUsed, playerCount: state.players.length, wonAt: Date.now() }
+          : previous.bestRun,
+      },
+    },
+  };
+};
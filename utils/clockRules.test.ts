@@ -0,0 +1,229 @@
+import { describe, expect, it } from 'vitest';
+import { Card, CardType, ClockDefinition, ClockSegment } from '../types';
+import { CLOCK_DEFINITIONS, getClockDefinition, sumCards, TOTAL_SEGMENTS } from '../constants';
+import {
+  checkGlobalRule, checkPlacement, checkPlacementRule, checkSegment, checkSegmentRule, getClockSchemaErrors, loadClockDefinition
+} from './clockRules';
+import { resolveClock } from './gameUtils';
+import { createRng, Rng } from './random';
+
+// --- Schema ---
+
+const validClock = () => JSON.parse(JSON.stringify(getClockDefinition('c1-4')));
+
+describe('getClockSchemaErrors', () => {
+  it('accepts every built-in clock', () => {
+    CLOCK_DEFINITIONS.forEach(clock => expect(getClockSchemaErrors(clock), clock.id).toEqual([]));
+  });
+
+  it('rejects malformed clocks with a message per problem', () => {
+    expect(getClockSchemaErrors(null)).toEqual(['Clock definition must be an object.']);
+    expect(getClockSchemaErrors([])).toEqual(['Clock definition must be an object.']);
+    expect(getClockSchemaErrors({ ...validClock(), id: '', chapter: 0, startingSegmentIndex: 6 })).toEqual([
+      'id must be a non-empty string.',
+      'chapter must be a positive integer.',
+      'startingSegmentIndex must be 0-5.',
+    ]);
+  });
+
+  it('rejects malformed rules', () => {
+    const cases: [string, (clock: any) => void, string][] = [
+      ['unknown segment rule', c => { c.segmentRules = { 0: [{ type: 'sumAbove', min: 3 }] }; }, 'segmentRules.0[0].type "sumAbove" is not a segment rule.'],
+      ['rule list not an array', c => { c.segmentRules = { 0: { type: 'cardCount', min: 1 } }; }, 'segmentRules.0 must be an array.'],
+      ['slot off the clock', c => { c.segmentRules = { 6: [] }; }, 'segmentRules.6 is not a slot.'],
+      ['bounds missing', c => { c.segmentRules = { 0: [{ type: 'sumRange' }] }; }, 'segmentRules.0[0] needs a min or a max.'],
+      ['bounds reversed', c => { c.segmentRules = { 0: [{ type: 'cardCount', min: 3, max: 1 }] }; }, 'segmentRules.0[0].min is above max.'],
+      ['bound not an integer', c => { c.segmentRules = { 0: [{ type: 'cardCount', min: '2' }] }; }, 'segmentRules.0[0].min must be an integer.'],
+      ['bad card type', c => { c.segmentRules = { 0: [{ type: 'typeCount', cardType: 'STAR', min: 1 }] }; }, 'segmentRules.0[0].cardType must be SOLAR or LUNAR.'],
+      ['bad parity', c => { c.segmentRules = { 0: [{ type: 'parity', parity: 'PRIME' }] }; }, 'segmentRules.0[0].parity must be EVEN or ODD.'],
+      ['unknown global rule', c => { c.globalRules = [{ type: 'magic' }]; }, 'globalRules[0].type "magic" is not a global rule.'],
+      ['negative spread', c => { c.globalRules = [{ type: 'maxSpread', max: -1 }]; }, 'globalRules[0].max must be a non-negative integer.'],
+      ['nth below 1', c => { c.placementRules = [{ type: 'nthCardToSlot', nth: 0, segment: 1 }]; }, 'placementRules[0].nth must be a positive integer.'],
+      ['placement slot missing', c => { c.placementRules = [{ type: 'slotAccepts', cardType: 'SOLAR' }]; }, 'placementRules[0].segment must be 0-5.'],
+      ['a closure instead of data', c => { c.placementRules = () => true; }, 'placementRules must be an array.'],
+    ];
+    cases.forEach(([name, breakIt, error]) => {
+      const clock = validClock();
+      breakIt(clock);
+      expect(getClockSchemaErrors(clock), name).toContain(error);
+    });
+  });
+});
+
+describe('loadClockDefinition', () => {
+  it('parses a clock from JSON text', () => {
+    expect(loadClockDefinition(JSON.stringify(getClockDefinition('c1-4')))).toEqual(getClockDefinition('c1-4'));
+  });
+
+  it('throws on a clock that does not match the schema', () => {
+    expect(() => loadClockDefinition({ ...validClock(), segmentRules: { 0: [{ type: 'sumRange' }] } }))
+      .toThrow('Invalid clock definition: segmentRules.0[0] needs a min or a max.');
+    expect(() => loadClockDefinition('{ not json')).toThrow();
+  });
+});
+
+// --- Rule codes ---
+// Failures carry a code and the numbers behind it; the wording is up to each client's language
+
+const card = (type: CardType, value: number): Card => ({ id: `${type}-${value}`, type, value, isFaceUp: false });
+const S = (value: number) => card(CardType.SOLAR, value);
+const L = (value: number) => card(CardType.LUNAR, value);
+
+// Slot contents by index; the rest stay empty
+const clockWith = (cards: { [index: number]: Card[] }): ClockSegment[] =>
+  Array.from({ length: TOTAL_SEGMENTS }, (_, index) => ({ index, cards: cards[index] || [] }));
+
+describe('rule codes', () => {
+  it('reports slot rules with the slot, what it holds and the bounds', () => {
+    const segments = clockWith({ 2: [S(10), L(5)], 3: [S(4), L(2)] });
+    const [, , slot3, slot4] = segments;
+    expect(checkSegmentRule({ type: 'cardCount', min: 3, max: 3 }, slot4, segments))
+      .toEqual({ passed: false, code: 'CARD_COUNT', params: { slot: 4, count: 2, min: 3, max: 3 } });
+    expect(checkSegmentRule({ type: 'sumRange', min: 8, max: 12 }, slot3, segments))
+      .toEqual({ passed: false, code: 'SUM_OUT_OF_RANGE', params: { slot: 3, sum: 15, min: 8, max: 12 } });
+    // Only the bounds the rule has
+    expect(checkSegmentRule({ type: 'sumRange', max: 12 }, slot3, segments).params).toEqual({ slot: 3, sum: 15, max: 12 });
+    expect(checkSegmentRule({ type: 'typeCount', cardType: CardType.LUNAR, min: 2 }, slot3, segments))
+      .toEqual({ passed: false, code: 'TYPE_COUNT', params: { slot: 3, cardType: CardType.LUNAR, count: 1, min: 2 } });
+    expect(checkSegmentRule({ type: 'parity', parity: 'EVEN' }, slot3, segments))
+      .toEqual({ passed: false, code: 'PARITY', params: { slot: 3, parity: 'EVEN' } });
+    expect(checkSegmentRule({ type: 'parity' }, slot3, segments))
+      .toEqual({ passed: false, code: 'MIXED_PARITY', params: { slot: 3 } });
+    expect(checkSegmentRule({ type: 'sumEquals', segment: 3 }, slot3, segments))
+      .toEqual({ passed: false, code: 'SUM_NOT_EQUAL', params: { slot: 3, sum: 15, other: 4, otherSum: 6 } });
+    expect(checkSegmentRule({ type: 'sumRange', min: 15, max: 15 }, slot3, segments)).toEqual({ passed: true });
+  });
+
+  it('reports clock-wide rules with the sums involved', () => {
+    const segments = clockWith({ 0: [S(1)], 1: [S(5)], 2: [L(5)], 3: [S(12), L(12)] });
+    expect(checkGlobalRule({ type: 'totalSum', min: 50 }, segments))
+      .toEqual({ passed: false, code: 'TOTAL_OUT_OF_RANGE', params: { total: 35, min: 50 } });
+    expect(checkGlobalRule({ type: 'distinctSums' }, segments))
+      .toEqual({ passed: false, code: 'SHARED_SUM', params: { slot: 2, other: 3, sum: 5 } });
+    expect(checkGlobalRule({ type: 'maxSpread', max: 20 }, segments))
+      .toEqual({ passed: false, code: 'SPREAD_TOO_WIDE', params: { spread: 24, max: 20 } });
+  });
+
+  it('reports placement rules with the slot and limit', () => {
+    const segments = clockWith({ 1: [S(3)] });
+    expect(checkPlacementRule({ type: 'nthCardToSlot', nth: 1, segment: 2 }, S(4), 0, segments, 0))
+      .toEqual({ passed: false, code: 'NTH_CARD_TO_SLOT', params: { nth: 1, slot: 3 } });
+    expect(checkPlacementRule({ type: 'slotAccepts', segment: 0, cardType: CardType.LUNAR }, S(4), 0, segments, 0))
+      .toEqual({ passed: false, code: 'SLOT_ACCEPTS', params: { slot: 1, cardType: CardType.LUNAR } });
+    expect(checkPlacementRule({ type: 'slotCapacity', segment: 1, max: 1 }, L(4), 1, segments, 1))
+      .toEqual({ passed: false, code: 'SLOT_FULL', params: { slot: 2, max: 1 } });
+    expect(checkPlacementRule({ type: 'slotCapacity', segment: 1, cardType: CardType.SOLAR, max: 1 }, S(4), 1, segments, 1))
+      .toEqual({ passed: false, code: 'SLOT_TYPE_FULL', params: { slot: 2, cardType: CardType.SOLAR, max: 1 } });
+  });
+});
+
+describe('resolveClock', () => {
+  const definition: ClockDefinition = {
+    ...getClockDefinition('c1-2'),
+    startingSegmentIndex: 0,
+    maxTotal: 20,
+    segmentRules: { 1: [{ type: 'cardCount', min: 2 }] },
+    globalRules: [{ type: 'maxSpread', max: 10 }],
+  };
+
+  it('gives each failed slot a code in resolution order', () => {
+    const segments = clockWith({ 0: [S(5)], 1: [S(6)], 2: [S(3)], 4: [S(12), L(11)], 5: [S(9), L(12)] });
+    const resolution = resolveClock(segments, definition);
+    expect(resolution.passed).toBe(false);
+    expect(resolution.segments).toEqual([
+      { index: 0, passed: true },
+      { index: 1, passed: false, failedRule: 'SEGMENT_RULE', code: 'CARD_COUNT', params: { slot: 2, count: 1, min: 2 } },
+      { index: 2, passed: false, failedRule: 'ASCENDING', code: 'NOT_ASCENDING', params: { slot: 3, sum: 3, previous: 6 } },
+      { index: 3, passed: false, failedRule: 'EMPTY', code: 'EMPTY_SLOT', params: { slot: 4 } },
+      { index: 4, passed: false, failedRule: 'MAX_TOTAL', code: 'OVER_MAX_TOTAL', params: { slot: 5, sum: 23, max: 20 } },
+      { index: 5, passed: false, failedRule: 'ASCENDING', code: 'NOT_ASCENDING', params: { slot: 6, sum: 21, previous: 23 } },
+    ]);
+    expect(resolution.global).toEqual([{ passed: false, code: 'SPREAD_TOO_WIDE', params: { spread: 23, max: 10 } }]);
+  });
+
+  it('starts at the hand and wraps round', () => {
+    const segments = clockWith({ 0: [S(1)], 1: [S(2), L(2)], 2: [S(3)], 3: [S(4)], 4: [S(5)], 5: [S(6)] });
+    const resolution = resolveClock(segments, { ...definition, startingSegmentIndex: 4, globalRules: [] });
+    expect(resolution.segments.map(r => r.index)).toEqual([4, 5, 0, 1, 2, 3]);
+    // Slot 1 (sum 1) comes after slot 6 (sum 6)
+    expect(resolution.segments[2]).toMatchObject({ code: 'NOT_ASCENDING', params: { slot: 1, sum: 1, previous: 6 } });
+  });
+});
+
+// --- Chapter 1 against the closures it replaced ---
+// Pass/fail of the hand-written rules the Chapter 1 clocks used to carry
+
+type LegacySegmentRule = (seg: ClockSegment) => boolean;
+type LegacyPlacement = (card: Card, targetIndex: number, segments: ClockSegment[], cardsPlayed: number) => boolean;
+
+const countType = (cards: Card[], type: CardType) => cards.filter(c => c.type === type).length;
+
+const LEGACY: Record<string, { segmentRules: Record<number, LegacySegmentRule>; placement: LegacyPlacement }> = {
+  'c1-1': {
+    segmentRules: {
+      0: seg => countType(seg.cards, CardType.LUNAR) === 1 && seg.cards.length === 1,
+      5: seg => seg.cards.length === 3,
+    },
+    placement: (card, target, segments) =>
+      target !== 0 || (card.type === CardType.LUNAR && segments[0].cards.length < 1),
+  },
+  'c1-2': {
+    segmentRules: {
+      2: seg => sumCards(seg.cards) >= 8 && sumCards(seg.cards) <= 12,
+      3: seg => seg.cards.length === 3,
+    },
+    placement: () => true,
+  },
+  'c1-3': {
+    segmentRules: {
+      5: seg => sumCards(seg.cards) >= 20 && sumCards(seg.cards) <= 30,
+    },
+    placement: (card, target, segments, played) => !(played === 0 && target !== 2) && !(played === 1 && target !== 1),
+  },
+  'c1-4': {
+    segmentRules: {
+      3: seg => countType(seg.cards, CardType.SOLAR) === 1 && countType(seg.cards, CardType.LUNAR) === 1,
+    },
+    placement: (card, target, segments, played) => {
+      if (played === 5 && target !== 0) return false;
+      if (target !== 3) return true;
+      const current = segments[3].cards;
+      if (current.length >= 2) return false;
+      return !current.some(c => c.type === card.type);
+    },
+  },
+};
+
+const randomCard = (rng: Rng, i: number): Card => {
+  const type = rng() < 0.5 ? CardType.SOLAR : CardType.LUNAR;
+  const value = 1 + Math.floor(rng() * 12);
+  return { id: `${type}-${value}-${i}`, type, value, isFaceUp: false };
+};
+
+const randomSegments = (rng: Rng): ClockSegment[] =>
+  Array.from({ length: TOTAL_SEGMENTS }, (_, index) => ({
+    index,
+    cards: Array.from({ length: Math.floor(rng() * 4) }, (_, i) => randomCard(rng, index * 10 + i)),
+  }));
+
+describe('Chapter 1 clocks', () => {
+  Object.entries(LEGACY).forEach(([clockId, legacy]) => {
+    it(`${clockId} judges slots and placements like the old closures`, () => {
+      const clock = getClockDefinition(clockId);
+      const rng = createRng(Number(clockId.slice(-1)));
+      for (let round = 0; round < 500; round++) {
+        const segments = randomSegments(rng);
+        segments.forEach(seg => {
+          const expected = legacy.segmentRules[seg.index]?.(seg) ?? true;
+          expect(checkSegment(seg, segments, clock).passed, `${clockId} slot ${seg.index + 1}`).toBe(expected);
+        });
+
+        const card = randomCard(rng, 99);
+        const target = Math.floor(rng() * TOTAL_SEGMENTS);
+        const played = Math.floor(rng() * 12);
+        expect(checkPlacement(card, target, segments, clock, played).passed, `${clockId} placement`)
+          .toBe(legacy.placement(card, target, segments, played));
+      }
+    });
+  });
+});
@@ -0,0 +1,267 @@
+import {
+  Card, CardType, ClockDefinition, ClockSegment, GlobalRule, MessageParams, Parity, PlacementRule, RuleCode, SegmentRule,
+  ValidationResult
+} from '../types';
+import { sumCards, TOTAL_SEGMENTS } from '../constants';
+import { isInt, isObject, isString } from './guards';
+
+// Interpreter for the declarative rules on ClockDefinition, plus a schema
+// check for clocks that arrive as untrusted JSON (files, network).
+
+const PASS: ValidationResult = { passed: true };
+
+const fail = (code: RuleCode, params: MessageParams): ValidationResult => ({ passed: false, code, params });
+
+const slotNumber = (index: number) => index + 1;
+const parityOf = (value: number): Parity => (value % 2 === 0 ? 'EVEN' : 'ODD');
+
+const inRange = (value: number, min?: number, max?: number) =>
+  (min === undefined || value >= min) && (max === undefined || value <= max);
+
+// Only the bounds a rule actually has
+const bounds = (min?: number, max?: number): MessageParams => ({
+  ...(min !== undefined && { min }),
+  ...(max !== undefined && { max }),
+});
+
+// --- Evaluation ---
+
+export const checkSegmentRule = (rule: SegmentRule, segment: ClockSegment, segments: ClockSegment[]): ValidationResult => {
+  const slot = slotNumber(segment.index);
+  switch (rule.type) {
+    case 'cardCount': {
+      const count = segment.cards.length;
+      if (inRange(count, rule.min, rule.max)) return PASS;
+      return fail('CARD_COUNT', { slot, count, ...bounds(rule.min, rule.max) });
+    }
+    case 'sumRange': {
+      const sum = sumCards(segment.cards);
+      if (inRange(sum, rule.min, rule.max)) return PASS;
+      return fail('SUM_OUT_OF_RANGE', { slot, sum, ...bounds(rule.min, rule.max) });
+    }
+    case 'typeCount': {
+      const count = segment.cards.filter(c => c.type === rule.cardType).length;
+      if (inRange(count, rule.min, rule.max)) return PASS;
+      return fail('TYPE_COUNT', { slot, cardType: rule.cardType, count, ...bounds(rule.min, rule.max) });
+    }
+    case 'parity': {
+      const parities = segment.cards.map(c => parityOf(c.value));
+      if (rule.parity) {
+        if (parities.every(p => p === rule.parity)) return PASS;
+        return fail('PARITY', { slot, parity: rule.parity });
+      }
+      if (parities.every(p => p === parities[0])) return PASS;
+      return fail('MIXED_PARITY', { slot });
+    }
+    case 'sumEquals': {
+      const sum = sumCards(segment.cards);
+      const otherSum = sumCards(segments[rule.segment]?.cards || []);
+      if (sum === otherSum) return PASS;
+      return fail('SUM_NOT_EQUAL', { slot, sum, other: slotNumber(rule.segment), otherSum });
+    }
+  }
+};
+
+// First failing rule of a slot, or a pass
+export const checkSegment = (segment: ClockSegment, segments: ClockSegment[], definition: ClockDefinition): ValidationResult => {
+  const rules = definition.segmentRules?.[segment.index] || [];
+  for (const rule of rules) {
+    const res = checkSegmentRule(rule, segment, segments);
+    if (!res.passed) return res;
+  }
+  return PASS;
+};
+
+export const checkGlobalRule = (rule: GlobalRule, segments: ClockSegment[]): ValidationResult => {
+  const sums = segments.map(seg => sumCards(seg.cards));
+  switch (rule.type) {
+    case 'totalSum': {
+      const total = sums.reduce((acc, sum) => acc + sum, 0);
+      if (inRange(total, rule.min, rule.max)) return PASS;
+      return fail('TOTAL_OUT_OF_RANGE', { total, ...bounds(rule.min, rule.max) });
+    }
+    case 'distinctSums': {
+      const dupe = sums.findIndex((sum, i) => sums.indexOf(sum) !== i);
+      if (dupe === -1) return PASS;
+      return fail('SHARED_SUM', { slot: slotNumber(sums.indexOf(sums[dupe])), other: slotNumber(dupe), sum: sums[dupe] });
+    }
+    case 'maxSpread': {
+      const spread = Math.max(...sums) - Math.min(...sums);
+      if (spread <= rule.max) return PASS;
+      return fail('SPREAD_TOO_WIDE', { spread, max: rule.max });
+    }
+  }
+};
+
+export const checkGlobalRules = (segments: ClockSegment[], definition: ClockDefinition): ValidationResult[] =>
+  (definition.globalRules || []).map(rule => checkGlobalRule(rule, segments)).filter(res => !res.passed);
+
+export const checkPlacementRule = (
+  rule: PlacementRule,
+  card: Card,
+  targetSegmentIndex: number,
+  currentSegments: ClockSegment[],
+  cardsPlayedTotal: number
+): ValidationResult => {
+  switch (rule.type) {
+    case 'nthCardToSlot':
+      if (cardsPlayedTotal === rule.nth - 1 && targetSegmentIndex !== rule.segment) {
+        return fail('NTH_CARD_TO_SLOT', { nth: rule.nth, slot: slotNumber(rule.segment) });
+      }
+      return PASS;
+    case 'slotAccepts':
+      if (targetSegmentIndex === rule.segment && card.type !== rule.cardType) {
+        return fail('SLOT_ACCEPTS', { slot: slotNumber(rule.segment), cardType: rule.cardType });
+      }
+      return PASS;
+    case 'slotCapacity': {
+      if (targetSegmentIndex !== rule.segment) return PASS;
+      const cards = currentSegments[rule.segment]?.cards || [];
+      if (rule.cardType) {
+        if (card.type !== rule.cardType) return PASS;
+        const count = cards.filter(c => c.type === rule.cardType).length;
+        if (count < rule.max) return PASS;
+        return fail('SLOT_TYPE_FULL', { slot: slotNumber(rule.segment), cardType: rule.cardType, max: rule.max });
+      }
+      if (cards.length < rule.max) return PASS;
+      return fail('SLOT_FULL', { slot: slotNumber(rule.segment), max: rule.max });
+    }
+  }
+};
+
+// First failing placement rule, or a pass
+export const checkPlacement = (
+  card: Card,
+  targetSegmentIndex: number,
+  currentSegments: ClockSegment[],
+  definition: ClockDefinition,
+  cardsPlayedTotal: number
+): ValidationResult => {
+  for (const rule of definition.placementRules || []) {
+    const res = checkPlacementRule(rule, card, targetSegmentIndex, currentSegments, cardsPlayedTotal);
+    if (!res.passed) return res;
+  }
+  return PASS;
+};
+
+// --- Schema ---
+
+const isSegmentIndex = (v: unknown) => isInt(v) && v >= 0 && v < TOTAL_SEGMENTS;
+const isCardType = (v: unknown) => v === CardType.SOLAR || v === CardType.LUNAR;
+
+const checkBounds = (rule: Record<string, any>, path: string, errors: string[]) => {
+  if (rule.min !== undefined && !isInt(rule.min)) errors.push(`${path}.min must be an integer.`);
+  if (rule.max !== undefined && !isInt(rule.max)) errors.push(`${path}.max must be an integer.`);
+  if (rule.min === undefined && rule.max === undefined) errors.push(`${path} needs a min or a max.`);
+  if (isInt(rule.min) && isInt(rule.max) && rule.min > rule.max) errors.push(`${path}.min is above max.`);
+};
+
+const checkSegmentRuleSchema = (rule: unknown, path: string, errors: string[]) => {
+  if (!isObject(rule)) { errors.push(`${path} must be an object.`); return; }
+  switch (rule.type) {
+    case 'typeCount':
+      if (!isCardType(rule.cardType)) errors.push(`${path}.cardType must be SOLAR or LUNAR.`);
+      checkBounds(rule, path, errors);
+      break;
+    case 'cardCount':
+    case 'sumRange':
+      checkBounds(rule, path, errors);
+      break;
+    case 'parity':
+      if (rule.parity !== undefined && rule.parity !== 'EVEN' && rule.parity !== 'ODD') errors.push(`${path}.parity must be EVEN or ODD.`);
+      break;
+    case 'sumEquals':
+      if (!isSegmentIndex(rule.segment)) errors.push(`${path}.segment must be 0-${TOTAL_SEGMENTS - 1}.`);
+      break;
+    default:
+      errors.push(`${path}.type "${rule.type}" is not a segment rule.`);
+  }
+};
+
+const checkGlobalRuleSchema = (rule: unknown, path: string, errors: string[]) => {
+  if (!isObject(rule)) { errors.push(`${path} must be an object.`); return; }
+  switch (rule.type) {
+    case 'totalSum':
+      checkBounds(rule, path, errors);
+      break;
+    case 'distinctSums':
+      break;
+    case 'maxSpread':
+      if (!isInt(rule.max) || rule.max < 0) errors.push(`${path}.max must be a non-negative integer.`);
+      break;
+    default:
+      errors.push(`${path}.type "${rule.type}" is not a global rule.`);
+  }
+};
+
+const checkPlacementRuleSchema = (rule: unknown, path: string, errors: string[]) => {
+  if (!isObject(rule)) { errors.push(`${path} must be an object.`); return; }
+  if (!isSegmentIndex(rule.segment)) errors.push(`${path}.segment must be 0-${TOTAL_SEGMENTS - 1}.`);
+  switch (rule.type) {
+    case 'nthCardToSlot':
+      if (!isInt(rule.nth) || rule.nth < 1) errors.push(`${path}.nth must be a positive integer.`);
+      break;
+    case 'slotAccepts':
+      if (!isCardType(rule.cardType)) errors.push(`${path}.cardType must be SOLAR or LUNAR.`);
+      break;
+    case 'slotCapacity':
+      if (!isInt(rule.max) || rule.max < 0) errors.push(`${path}.max must be a non-negative integer.`);
+      if (rule.cardType !== undefined && !isCardType(rule.cardType)) errors.push(`${path}.cardType must be SOLAR or LUNAR.`);
+      break;
+    default:
+      errors.push(`${path}.type "${rule.type}" is not a placement rule.`);
+  }
+};
+
+// Lists everything wrong with a raw clock; empty means it is a valid ClockDefinition
+export const getClockSchemaErrors = (raw: unknown): string[] => {
+  const errors: string[] = [];
+  if (!isObject(raw)) return ['Clock definition must be an object.'];
+
+  if (!isString(raw.id) || !raw.id) errors.push('id must be a non-empty string.');
+  if (!isString(raw.name)) errors.push('name must be a string.');
+  if (!isString(raw.description)) errors.push('description must be a string.');
+  if (!isInt(raw.chapter) || raw.chapter < 1) errors.push('chapter must be a positive integer.');
+  if (!isSegmentIndex(raw.startingSegmentIndex)) errors.push(`startingSegmentIndex must be 0-${TOTAL_SEGMENTS - 1}.`);
+  if (raw.maxTotal !== undefined && !isInt(raw.maxTotal)) errors.push('maxTotal must be an integer.');
+  if (raw.faceUpLimit !== undefined && (!isInt(raw.faceUpLimit) || raw.faceUpLimit < 0)) errors.push('faceUpLimit must be a non-negative integer.');
+
+  if (raw.visualHints !== undefined) {
+    if (!isObject(raw.visualHints)) errors.push('visualHints must be an object.');
+    else Object.entries(raw.visualHints).forEach(([key, hint]) => {
+      if (!isSegmentIndex(Number(key))) errors.push(`visualHints.${key} is not a slot.`);
+      if (!isString(hint)) errors.push(`visualHints.${key} must be a string.`);
+    });
+  }
+
+  if (raw.segmentRules !== undefined) {
+    if (!isObject(raw.segmentRules)) errors.push('segmentRules must be an object.');
+    else Object.entries(raw.segmentRules).forEach(([key, rules]) => {
+      if (!isSegmentIndex(Number(key))) errors.push(`segmentRules.${key} is not a slot.`);
+      if (!Array.isArray(rules)) errors.push(`segmentRules.${key} must be an array.`);
+      else rules.forEach((rule, i) => checkSegmentRuleSchema(rule, `segmentRules.${key}[${i}]`, errors));
+    });
+  }
+
+  if (raw.globalRules !== undefined) {
+    if (!Array.isArray(raw.globalRules)) errors.push('globalRules must be an array.');
+    else raw.globalRules.forEach((rule, i) => checkGlobalRuleSchema(rule, `globalRules[${i}]`, errors));
+  }
+
+  if (raw.placementRules !== undefined) {
+    if (!Array.isArray(raw.placementRules)) errors.push('placementRules must be an array.');
+    else raw.placementRules.forEach((rule, i) => checkPlacementRuleSchema(rule, `placementRules[${i}]`, errors));
+  }
+
+  return errors;
+};
+
+// Parses a clock from JSON (string or already-parsed) and throws if it does not match the schema
+export const loadClockDefinition = (raw: unknown): ClockDefinition => {
+  const value = typeof raw === 'string' ? JSON.parse(raw) : raw;
+  const errors = getClockSchemaErrors(value);
+  if (errors.length > 0) {
+    throw new Error(`Invalid clock definition: ${errors.join(' ')}`);
+  }
+  return value as ClockDefinition;
+};
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { DealMode } from '../types';
+import { getClockDefinition } from '../constants';
+import { deckFromSeed, pickDeal, seededDecks } from './dealing';
+import { dealCards } from './gameUtils';
+import { solveDeal } from './solver';
+
+describe('pickDeal', () => {
+  it('names a shuffle that deckFromSeed deals again', () => {
+    const clock = getClockDefinition('c1-3');
+    (['SOLVABLE', 'HARD'] as DealMode[]).forEach(mode => {
+      const pick = pickDeal(clock, 3, mode, seededDecks(11));
+      expect(pick.fallback).toBe(false);
+      expect(deckFromSeed(11, pick.shuffle)).toEqual(pick.deck);
+      expect(solveDeal(dealCards(pick.deck, 3), clock, { maxSolutions: 1 }).solvable).toBe(true);
+    });
+  });
+
+  it('picks harder deals for harder modes', () => {
+    const clock = getClockDefinition('c1-2');
+    const count = (mode: DealMode) =>
+      solveDeal(dealCards(pickDeal(clock, 3, mode, seededDecks(5)).deck, 3), clock, { maxSolutions: 10000 }).solutionCount;
+    const [solvable, hard, expert] = (['SOLVABLE', 'HARD', 'EXPERT'] as DealMode[]).map(count);
+    expect(solvable).toBeGreaterThan(0);
+    expect(hard).toBeLessThanOrEqual(solvable);
+    expect(expert).toBeLessThanOrEqual(hard);
+    expect(expert).toBeGreaterThan(0);
+  });
+
+  it('keeps the first shuffle for random deals', () => {
+    const pick = pickDeal(getClockDefinition('c1-3'), 3, 'RANDOM', seededDecks(11));
+    expect(pick).toMatchObject({ shuffle: 1, fallback: false });
+    expect(pick.deck).toEqual(deckFromSeed(11));
+  });
+
+  it('flags the fallback when no shuffle can be won', () => {
+    // Two different slots for the same card: no deal satisfies this clock
+    const clock = {
+      ...getClockDefinition('c1-2'),
+      placementRules: [{ type: 'nthCardToSlot' as const, nth: 1, segment: 0 }, { type: 'nthCardToSlot' as const, nth: 1, segment: 1 }],
+    };
+    const pick = pickDeal(clock, 3, 'SOLVABLE', seededDecks(11));
+    expect(pick).toMatchObject({ shuffle: 1, solutionCount: null, fallback: true });
+    expect(pick.deck).toEqual(deckFromSeed(11));
+  });
+});
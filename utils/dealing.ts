@@ -0,0 +1,98 @@
+import { Card, ClockDefinition, DealMode, DealSpec } from '../types';
+import { CLOCK_DEFINITIONS, isSupportedPlayerCount } from '../constants';
+import { createDeck, dealCards } from './gameUtils';
+import { solveDeal } from './solver';
+import { createRng } from './random';
+
+// Picks which shuffle the host deals from. Every step is driven by `makeDeck`,
+// so the same deck source always yields the same pick. Only the host searches:
+// the Deal action carries the chosen shuffle, and `reduce` (and with it replays
+// and rebuilds after migration) just draws that many decks from the seed.
+
+// Solvable deals compared per mode; the one with the fewest solutions wins
+const CANDIDATES: Record<DealMode, number> = { RANDOM: 0, SOLVABLE: 1, HARD: 3, EXPERT: 6 };
+// Give up looking for a solvable deal after this many shuffles
+export const MAX_SHUFFLES = 50;
+// Counting stops here; beyond this a deal is "easy" either way
+const SOLUTION_CAP = 10000;
+
+export interface DealPick {
+  deck: Card[];
+  shuffle: number; // 1-based: which of `makeDeck`'s decks was kept
+  solutionCount: number | null; // Up to the cap (1 for SOLVABLE); null when the deal was not checked
+  fallback: boolean; // no solvable deal turned up, so this is the first shuffle unchecked
+}
+
+export const pickDeal = (
+  clock: ClockDefinition,
+  playerCount: number,
+  mode: DealMode,
+  makeDeck: () => Card[] = createDeck
+): DealPick => {
+  const wanted = CANDIDATES[mode];
+  if (wanted === 0) return { deck: makeDeck(), shuffle: 1, solutionCount: null, fallback: false };
+
+  let best: DealPick | null = null;
+  let firstDeck: Card[] = [];
+  let found = 0;
+
+  for (let shuffle = 1; found < wanted && shuffle <= MAX_SHUFFLES; shuffle++) {
+    const deck = makeDeck();
+    if (shuffle === 1) firstDeck = deck;
+
+    // A single solution settles SOLVABLE. Otherwise counting stops at the best
+    // count so far: a deal that reaches it cannot win anymore.
+    const cap = wanted === 1 ? 1 : best?.solutionCount ?? SOLUTION_CAP;
+    const result = solveDeal(dealCards(deck, playerCount), clock, { maxSolutions: cap });
+    if (!result.solvable) continue;
+    found++;
+    if (!best || result.solutionCount < best.solutionCount!) {
+      best = { deck, shuffle, solutionCount: result.solutionCount, fallback: false };
+    }
+  }
+
+  return best || { deck: firstDeck, shuffle: 1, solutionCount: null, fallback: true };
+};
+
+// One deck after another from the seed; what the host hands to pickDeal
+export const seededDecks = (seed: number) => {
+  const rng = createRng(seed);
+  return () => createDeck(rng);
+};
+
+// The deck a Deal action names: the `shuffle`-th deck drawn from the seed
+export const deckFromSeed = (seed: number, shuffle = 1) => {
+  const nextDeck = seededDecks(seed);
+  let deck = nextDeck();
+  for (let i = 1; i < shuffle; i++) deck = nextDeck();
+  return deck;
+};
+
+// --- Deal codes ---
+// "<clock id>.<players>.<seed in base 36>[.<mode>]", e.g. "C1-3.3.1Z4K9Q" or "C2-1.4.8H2.H"
+
+const MODE_CODES: Record<DealMode, string> = { RANDOM: '', SOLVABLE: 'S', HARD: 'H', EXPERT: 'E' };
+
+export const encodeDealCode = (spec: DealSpec) => {
+  const parts = [spec.clockId, String(spec.playerCount), spec.seed.toString(36)];
+  if (MODE_CODES[spec.mode]) parts.push(MODE_CODES[spec.mode]);
+  return parts.join('.').toUpperCase();
+};
+
+// Returns null for anything that is not a well-formed code for a known clock
+export const parseDealCode = (code: string, clocks: ClockDefinition[] = CLOCK_DEFINITIONS): DealSpec | null => {
+  const parts = code.trim().toLowerCase().split('.');
+  if (parts.length < 3 || parts.length > 4) return null;
+  const [clockId, players, seedText, modeText = ''] = parts;
+
+  if (!clocks.some(c => c.id === clockId)) return null;
+  const playerCount = Number(players);
+  if (!isSupportedPlayerCount(playerCount)) return null;
+  if (!/^[0-9a-z]{1,7}$/.test(seedText)) return null;
+  const seed = parseInt(seedText, 36);
+  if (seed > 0xFFFFFFFF) return null;
+  const mode = (Object.keys(MODE_CODES) as DealMode[]).find(m => MODE_CODES[m] === modeText.toUpperCase());
+  if (!mode) return null;
+
+  return { clockId, playerCount, seed, mode };
+};
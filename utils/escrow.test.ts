@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { combineShares, shareThreshold, splitSeed } from './escrow';
+
+const SEEDS = [0, 1, 99, 0x7fffffff, 0xffffffff];
+
+// Every way to pick `size` shares out of the set
+const subsets = <T>(items: T[], size: number): T[][] =>
+  size === 0 ? [[]] : items.flatMap((item, i) => subsets(items.slice(i + 1), size - 1).map(rest => [item, ...rest]));
+
+describe('shareThreshold', () => {
+  it('lets one holder stay away once there are three or more', () => {
+    expect([1, 2, 3, 4].map(shareThreshold)).toEqual([1, 1, 2, 2]);
+  });
+});
+
+describe('splitSeed and combineShares', () => {
+  it('rebuilds the seed from any threshold of shares', () => {
+    SEEDS.forEach(seed => {
+      const shares = splitSeed('m1', seed, 4);
+      expect(shares.map(s => s.threshold)).toEqual([2, 2, 2, 2]);
+      [2, 3, 4].forEach(size => subsets(shares, size).forEach(subset => expect(combineShares(subset), `seed ${seed}`).toBe(seed)));
+    });
+  });
+
+  it('rebuilds nothing from fewer shares than the threshold', () => {
+    const shares = splitSeed('m1', 1234, 4);
+    shares.forEach(share => expect(combineShares([share])).toBeNull());
+    expect(combineShares([])).toBeNull();
+    // The same share twice is still one share
+    expect(combineShares([shares[0], shares[0]])).toBeNull();
+  });
+
+  it('hands each holder the whole seed at tables too small to wait for anyone', () => {
+    [1, 2].forEach(count => splitSeed('m1', 4321, count).forEach(share => expect(combineShares([share])).toBe(4321)));
+  });
+
+  it('only combines shares from one split', () => {
+    const [a] = splitSeed('m1', 1234, 3);
+    const [, b] = splitSeed('m1', 1234, 3);
+    expect(combineShares([a, b])).toBeNull();
+  });
+
+  it('keeps every share an integer JSON can carry', () => {
+    splitSeed('m1', 0xffffffff, 5).forEach(({ share }) => {
+      expect(Number.isSafeInteger(share)).toBe(true);
+      expect(share).toBeGreaterThanOrEqual(0);
+    });
+  });
+});
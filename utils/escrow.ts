@@ -0,0 +1,63 @@
+import { randomSeed } from './random';
+
+// The deal seed is the host's only secret (the public action log does the
+// rest), so that is all a successor needs after migration. It is split into
+// threshold shares (Shamir's scheme), one per connected client: fewer than
+// `threshold` of them learn nothing, and any `threshold` of them rebuild it,
+// so the match survives a holder who never comes back.
+
+export interface SeedShare {
+  matchId: string;
+  setId: string; // Shares are re-split whenever the holders change; only one set combines
+  index: number;
+  count: number;
+  threshold: number; // Shares of this set needed to rebuild the seed
+  share: number;
+}
+
+// Smallest prime above 2^32, so every 32-bit seed is a field element and every share still fits a JSON number
+const PRIME = 4294967311n;
+
+const mod = (v: bigint) => ((v % PRIME) + PRIME) % PRIME;
+
+const inverse = (v: bigint) => {
+  let result = 1n;
+  let base = mod(v);
+  for (let e = PRIME - 2n; e > 0n; e >>= 1n) {
+    if (e & 1n) result = (result * base) % PRIME;
+    base = (base * base) % PRIME;
+  }
+  return result;
+};
+
+// With three or more holders any single one learns nothing and one may stay away.
+// Smaller tables trade that away to keep their match: each holder could rebuild
+// the seed alone, because with two there is nobody else to wait for.
+export const shareThreshold = (holders: number) => (holders >= 3 ? 2 : 1);
+
+export const splitSeed = (matchId: string, seed: number, count: number, threshold = shareThreshold(count)): SeedShare[] => {
+  const setId = randomSeed().toString(36);
+  const coefficients = [BigInt(seed >>> 0), ...Array.from({ length: threshold - 1 }, () => BigInt(randomSeed()))];
+  return Array.from({ length: count }, (_, index) => {
+    const x = BigInt(index + 1);
+    const y = coefficients.reduceRight((acc, c) => mod(acc * x + c), 0n);
+    return { matchId, setId, index, count, threshold, share: Number(y) };
+  });
+};
+
+// Shares from the same set as the first one; null until `threshold` distinct indices are present
+export const combineShares = (shares: SeedShare[]): number | null => {
+  if (shares.length === 0) return null;
+  const { setId, threshold } = shares[0];
+  const byIndex = new Map<number, number>();
+  shares.forEach(s => { if (s.setId === setId) byIndex.set(s.index, s.share); });
+  if (byIndex.size < threshold) return null;
+
+  // Lagrange interpolation at x = 0 over the first `threshold` points
+  const points = [...byIndex].slice(0, threshold).map(([index, share]) => [BigInt(index + 1), BigInt(share)]);
+  const seed = points.reduce((acc, [xi, yi], i) => {
+    const basis = points.reduce((b, [xj], j) => (i === j ? b : mod(b * xj * inverse(xj - xi))), 1n);
+    return mod(acc + yi * basis);
+  }, 0n);
+  return Number(seed);
+};
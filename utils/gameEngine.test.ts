@@ -0,0 +1,255 @@
+import { describe, expect, it } from 'vitest';
+import { CardType, GameAction, GamePhase, GameState, Seat } from '../types';
+import { getClockDefinition, getPlayerCountRules, PLAYER_COUNT_RULES, SUPPORTED_PLAYER_COUNTS, TOTAL_SEGMENTS } from '../constants';
+import { createLobbyState, getFaceUpLimit, isResolutionComplete, reduce, validateMove } from './gameEngine';
+import { dealCards } from './gameUtils';
+
+const SEATS: Seat[] = [
+  { id: 'p1', name: 'Ada', isLocal: true },
+  { id: 'p2', name: 'Ben', isLocal: false },
+  { id: 'p3', name: 'Cleo', isLocal: false },
+];
+
+const dealt = (clockId: string, seed = 42): GameState =>
+  reduce(createLobbyState(), {
+    type: 'Deal', matchId: 'm1', clock: getClockDefinition(clockId), seats: SEATS, seed, dealMode: 'RANDOM',
+  });
+
+const started = (clockId: string, seed = 42) => reduce(dealt(clockId, seed), { type: 'ClaimStart', playerId: 'p1' });
+
+const play = (state: GameState, segmentIndex: number, faceUp = false): Extract<GameAction, { type: 'PlayCard' }> => {
+  const player = state.players[state.currentPlayerIndex];
+  return { type: 'PlayCard', playerId: player.id, cardId: player.hand[0].id, segmentIndex, faceUp };
+};
+
+describe('Deal', () => {
+  it('deals the same hands for the same seed', () => {
+    expect(dealt('c1-2', 7).players).toEqual(dealt('c1-2', 7).players);
+    expect(dealt('c1-2', 7).players).not.toEqual(dealt('c1-2', 8).players);
+  });
+
+  it('gives every seat the hand size for the table', () => {
+    const state = dealt('c1-2');
+    expect(state.phase).toBe(GamePhase.START_PLAYER_SELECTION);
+    expect(state.players.map(p => p.hand.length)).toEqual([4, 4, 4]);
+  });
+
+  it('ignores a table size the rules do not cover', () => {
+    const lobby = createLobbyState();
+    const next = reduce(lobby, {
+      type: 'Deal', matchId: 'm1', clock: getClockDefinition('c1-2'), seats: SEATS.slice(0, 1), seed: 1, dealMode: 'RANDOM',
+    });
+    expect(next).toBe(lobby);
+  });
+});
+
+describe('player counts', () => {
+  const seatsFor = (count: number): Seat[] => Array.from({ length: count }, (_, i) => ({ id: `p${i + 1}`, name: `P${i + 1}`, isLocal: i === 0 }));
+  const dealtFor = (count: number, clockId = 'c1-2') =>
+    reduce(createLobbyState(), { type: 'Deal', matchId: 'm1', clock: getClockDefinition(clockId), seats: seatsFor(count), seed: 5, dealMode: 'RANDOM' });
+
+  it('covers two to five players', () => {
+    expect(SUPPORTED_PLAYER_COUNTS).toEqual([2, 3, 4, 5]);
+  });
+
+  SUPPORTED_PLAYER_COUNTS.forEach(count => {
+    const { cardsPerPlayer, faceUpTokens } = PLAYER_COUNT_RULES[count];
+
+    it(`deals ${cardsPerPlayer} different cards each to ${count} players`, () => {
+      const state = dealtFor(count);
+      expect(state.players.map(p => p.hand.length)).toEqual(Array(count).fill(cardsPerPlayer));
+      const ids = state.players.flatMap(p => p.hand.map(c => c.id));
+      expect(new Set(ids).size).toBe(count * cardsPerPlayer);
+    });
+
+    it(`gives ${count} players ${faceUpTokens} face-up tokens`, () => {
+      let state = reduce(dealtFor(count), { type: 'ClaimStart', playerId: 'p1' });
+      expect(getFaceUpLimit(state)).toBe(faceUpTokens);
+      for (let i = 0; i < faceUpTokens; i++) state = reduce(state, play(state, i % TOTAL_SEGMENTS, true));
+      expect(validateMove(state, play(state, 0, true)).reason).toBe('NO_FACE_UP_TOKENS');
+    });
+
+    it(`lets any of ${count} players start, then goes round from them`, () => {
+      for (let starter = 0; starter < count; starter++) {
+        let state = reduce(dealtFor(count), { type: 'ClaimStart', playerId: `p${starter + 1}` });
+        expect(state.phase).toBe(GamePhase.PLACEMENT);
+        // One lap and a step: every hand has at least two cards
+        for (let turn = 0; turn < count + 1; turn++) {
+          expect(state.currentPlayerIndex).toBe((starter + turn) % count);
+          state = reduce(state, play(state, turn % TOTAL_SEGMENTS));
+        }
+      }
+    });
+  });
+
+  it('lets the clock override the token count', () => {
+    // Clock VII allows no face-up cards at all
+    expect(getFaceUpLimit(dealtFor(4, 'c2-3'))).toBe(0);
+  });
+
+  it('takes only the first claim, and only from a seat at the table', () => {
+    const state = dealtFor(3);
+    expect(reduce(state, { type: 'ClaimStart', playerId: 'p9' })).toBe(state);
+    const claimed = reduce(state, { type: 'ClaimStart', playerId: 'p2' });
+    expect(reduce(claimed, { type: 'ClaimStart', playerId: 'p3' })).toBe(claimed);
+  });
+
+  it('refuses table sizes without rules', () => {
+    [0, 1, 6].forEach(count => {
+      expect(() => getPlayerCountRules(count)).toThrow(`Unsupported player count: ${count}.`);
+      expect(() => dealCards([], count)).toThrow();
+      const lobby = createLobbyState();
+      expect(reduce(lobby, { type: 'Deal', matchId: 'm1', clock: getClockDefinition('c1-2'), seats: seatsFor(count), seed: 1, dealMode: 'RANDOM' })).toBe(lobby);
+    });
+  });
+});
+
+describe('validateMove', () => {
+  it('rejects plays before the start is claimed', () => {
+    const state = dealt('c1-2');
+    const p1 = state.players[0];
+    const check = validateMove(state, { type: 'PlayCard', playerId: 'p1', cardId: p1.hand[0].id, segmentIndex: 0, faceUp: false });
+    expect(check).toEqual({ passed: false, reason: 'WRONG_PHASE' });
+  });
+
+  it('rejects out-of-turn plays and cards from someone else', () => {
+    const state = started('c1-2');
+    const p2 = state.players[1];
+    expect(validateMove(state, { type: 'PlayCard', playerId: 'p2', cardId: p2.hand[0].id, segmentIndex: 0, faceUp: false }).reason)
+      .toBe('NOT_YOUR_TURN');
+    expect(validateMove(state, { type: 'PlayCard', playerId: 'p1', cardId: p2.hand[0].id, segmentIndex: 0, faceUp: false }).reason)
+      .toBe('CARD_NOT_IN_HAND');
+    expect(validateMove(state, { type: 'PlayCard', playerId: 'p9', cardId: p2.hand[0].id, segmentIndex: 0, faceUp: false }).reason)
+      .toBe('UNKNOWN_PLAYER');
+  });
+
+  it('rejects slots off the clock', () => {
+    const state = started('c1-2');
+    expect(validateMove(state, play(state, TOTAL_SEGMENTS)).reason).toBe('INVALID_SEGMENT');
+    expect(validateMove(state, play(state, -1)).reason).toBe('INVALID_SEGMENT');
+    expect(validateMove(state, play(state, 0)).passed).toBe(true);
+  });
+
+  it('stops face-up plays once the tokens are spent', () => {
+    let state = started('c1-2');
+    for (let i = 0; i < 3; i++) state = reduce(state, play(state, i, true));
+    expect(state.faceUpTokensUsed).toBe(3);
+    expect(validateMove(state, play(state, 3, true)).reason).toBe('NO_FACE_UP_TOKENS');
+    expect(validateMove(state, play(state, 3, false)).passed).toBe(true);
+  });
+
+  it('reports the placement rule a card breaks', () => {
+    // Clock I: slot 1 only takes one Lunar card
+    const state = started('c1-1');
+    const p1 = state.players[0];
+    const solar = p1.hand.find(c => c.type === CardType.SOLAR)!;
+    const check = validateMove(state, { type: 'PlayCard', playerId: 'p1', cardId: solar.id, segmentIndex: 0, faceUp: false });
+    expect(check).toMatchObject({ passed: false, reason: 'PLACEMENT_RESTRICTED', code: 'SLOT_ACCEPTS' });
+  });
+});
+
+describe('a full match', () => {
+  it('goes from the deal through placement to a verdict', () => {
+    let state = started('c1-2');
+    expect(state.phase).toBe(GamePhase.PLACEMENT);
+    expect(state.systemMessage).toEqual({ code: 'STARTS', params: { name: 'Ada' } });
+
+    for (let turn = 0; state.phase === GamePhase.PLACEMENT; turn++) {
+      expect(state.players[state.currentPlayerIndex].id).toBe(SEATS[turn % SEATS.length].id);
+      state = reduce(state, play(state, turn % TOTAL_SEGMENTS));
+    }
+    expect(state.phase).toBe(GamePhase.RESOLUTION);
+    expect(state.cardsPlayedCount).toBe(12);
+    expect(state.players.every(p => p.hand.length === 0)).toBe(true);
+
+    while (!isResolutionComplete(state)) state = reduce(state, { type: 'ResolveStep' });
+    expect(state.resolutionResults).toHaveLength(TOTAL_SEGMENTS);
+    expect(state.outcome).not.toBeNull();
+    expect(state.systemMessage?.code).toBe(state.outcome);
+
+    // Nothing moves once the clock is resolved, and Reset goes back to the lobby
+    expect(reduce(state, { type: 'ResolveStep' })).toBe(state);
+    expect(reduce(state, { type: 'Reset' })).toEqual(createLobbyState());
+  });
+
+  it('ignores plays the engine cannot apply', () => {
+    const state = started('c1-2');
+    expect(reduce(state, { type: 'PlayCard', playerId: 'p1', cardId: 'nope', segmentIndex: 0, faceUp: false })).toBe(state);
+    expect(reduce(dealt('c1-2'), play(state, 0))).toEqual(dealt('c1-2'));
+  });
+});
+
+describe('take-backs', () => {
+  // Ada plays her first card into slot 1 at a table that allows take-backs
+  const afterPlay = (seats = SEATS) => {
+    let state = reduce(createLobbyState(), {
+      type: 'Deal', matchId: 'm1', clock: getClockDefinition('c1-2'), seats, seed: 42, dealMode: 'RANDOM', allowTakeBacks: true,
+    });
+    state = reduce(state, { type: 'ClaimStart', playerId: 'p1' });
+    return reduce(state, play(state, 0, true));
+  };
+
+  it('opens a vote when the last player asks, and blocks play while it runs', () => {
+    const state = afterPlay();
+    expect(reduce(state, { type: 'RequestTakeBack', playerId: 'p2' })).toBe(state); // Not Ben's play
+    const asked = reduce(state, { type: 'RequestTakeBack', playerId: 'p1' });
+    expect(asked.takeBack).toEqual({ playerId: 'p1', accepted: [] });
+    expect(validateMove(asked, play(asked, 1)).reason).toBe('TAKE_BACK_PENDING');
+    expect(reduce(asked, { type: 'RequestTakeBack', playerId: 'p1' })).toBe(asked);
+  });
+
+  it('undoes the play once every other human accepts', () => {
+    const before = started('c1-2');
+    let state = reduce(afterPlay(), { type: 'RequestTakeBack', playerId: 'p1' });
+    state = reduce(state, { type: 'VoteTakeBack', playerId: 'p2', accept: true });
+    expect(state.takeBack).toEqual({ playerId: 'p1', accepted: ['p2'] });
+    expect(state.cardsPlayedCount).toBe(1);
+
+    state = reduce(state, { type: 'VoteTakeBack', playerId: 'p3', accept: true });
+    expect(state.takeBack).toBeNull();
+    expect(state.systemMessage).toEqual({ code: 'TAKEN_BACK', params: { name: 'Ada' } });
+    // Card back in the same spot of the hand, token refunded, Ada to move again
+    expect(state.players.map(p => p.hand)).toEqual(before.players.map(p => p.hand));
+    expect(state.clockSegments).toEqual(before.clockSegments);
+    expect(state).toMatchObject({ currentPlayerIndex: 0, cardsPlayedCount: 0, faceUpTokensUsed: 0, lastPlay: null });
+  });
+
+  it('keeps the play when anyone declines', () => {
+    const played = afterPlay();
+    let state = reduce(played, { type: 'RequestTakeBack', playerId: 'p1' });
+    state = reduce(state, { type: 'VoteTakeBack', playerId: 'p2', accept: true });
+    state = reduce(state, { type: 'VoteTakeBack', playerId: 'p3', accept: false });
+    expect(state.takeBack).toBeNull();
+    expect(state.systemMessage).toEqual({ code: 'TAKE_BACK_DECLINED', params: { name: 'Cleo' } });
+    expect(state.clockSegments).toEqual(played.clockSegments);
+    expect(state.currentPlayerIndex).toBe(1);
+  });
+
+  it('ignores votes from the asker, seats not at the table and repeat voters', () => {
+    let state = reduce(afterPlay(), { type: 'RequestTakeBack', playerId: 'p1' });
+    state = reduce(state, { type: 'VoteTakeBack', playerId: 'p2', accept: true });
+    [
+      { playerId: 'p1', accept: false },
+      { playerId: 'p9', accept: false },
+      { playerId: 'p2', accept: false },
+    ].forEach(vote => expect(reduce(state, { type: 'VoteTakeBack', ...vote })).toBe(state));
+  });
+
+  it('gives bots and away seats no say', () => {
+    const withBot: Seat[] = [...SEATS.slice(0, 2), { id: 'bot-2', name: 'Bot', isLocal: false, botLevel: 'NORMAL' }];
+    let state = reduce(afterPlay(withBot), { type: 'RequestTakeBack', playerId: 'p1' });
+    expect(reduce(state, { type: 'VoteTakeBack', playerId: 'bot-2', accept: false })).toBe(state);
+    // Ben leaving was the only vote missing
+    state = reduce(state, { type: 'SetPresence', playerId: 'p2', away: true });
+    expect(state.systemMessage?.code).toBe('TAKEN_BACK');
+
+    // With nobody left to ask, the play comes back straight away
+    const alone = reduce(afterPlay(withBot), { type: 'SetPresence', playerId: 'p2', away: true });
+    expect(reduce(alone, { type: 'RequestTakeBack', playerId: 'p1' }).cardsPlayedCount).toBe(0);
+  });
+
+  it('needs the table to allow take-backs', () => {
+    const state = reduce(started('c1-2'), play(started('c1-2'), 0));
+    expect(reduce(state, { type: 'RequestTakeBack', playerId: 'p1' })).toBe(state);
+  });
+});
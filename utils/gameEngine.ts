@@ -0,0 +1,263 @@
+import { Card, GameAction, GamePhase, GameState, MoveCheck, Player } from '../types';
+import { CLOCK_DEFINITIONS, PLAYER_COUNT_RULES, TOTAL_SEGMENTS, isSupportedPlayerCount } from '../constants';
+import { dealCards, resolveClock } from './gameUtils';
+import { deckFromSeed } from './dealing';
+import { checkPlacement } from './clockRules';
+
+// Headless match engine. No React, no networking: the host, bots and any
+// tooling feed actions through `reduce` and render whatever comes out.
+
+export const createLobbyState = (): GameState => ({
+  matchId: '',
+  seed: 0,
+  dealMode: 'RANDOM',
+  phase: GamePhase.LOBBY,
+  clock: CLOCK_DEFINITIONS[0],
+  clockSegments: [],
+  players: [],
+  currentPlayerIndex: 0,
+  faceUpTokensUsed: 0,
+  cardsPlayedCount: 0,
+  resolutionStep: -1,
+  resolutionResults: [],
+  outcome: null,
+  systemMessage: null,
+  allowTakeBacks: false,
+  lastPlay: null,
+  takeBack: null,
+});
+
+const createEmptySegments = () =>
+  Array.from({ length: TOTAL_SEGMENTS }, (_, i) => ({ index: i, cards: [] as Card[] }));
+
+// The whole deal follows from the seed and the shuffle the host picked, so the
+// same Deal action always produces the same hands
+const deal = (state: GameState, action: Extract<GameAction, { type: 'Deal' }>): GameState => {
+  if (!isSupportedPlayerCount(action.seats.length)) return state;
+  const hands = dealCards(deckFromSeed(action.seed, action.shuffle), action.seats.length);
+  const players: Player[] = action.seats.map((seat, i) => ({ ...seat, hand: hands[i] }));
+
+  return {
+    ...createLobbyState(),
+    matchId: action.matchId,
+    seed: action.seed,
+    dealMode: action.dealMode,
+    allowTakeBacks: !!action.allowTakeBacks,
+    phase: GamePhase.START_PLAYER_SELECTION,
+    clock: action.clock,
+    clockSegments: createEmptySegments(),
+    players,
+  };
+};
+
+const claimStart = (state: GameState, action: Extract<GameAction, { type: 'ClaimStart' }>): GameState => {
+  if (state.phase !== GamePhase.START_PLAYER_SELECTION) return state;
+  const startIndex = state.players.findIndex(p => p.id === action.playerId);
+  if (startIndex === -1) return state;
+
+  return {
+    ...state,
+    phase: GamePhase.PLACEMENT,
+    currentPlayerIndex: startIndex,
+    resolutionStep: -1,
+    resolutionResults: [],
+    systemMessage: { code: 'STARTS', params: { name: state.players[startIndex].name } },
+  };
+};
+
+const playCard = (state: GameState, action: Extract<GameAction, { type: 'PlayCard' }>): GameState => {
+  if (state.phase !== GamePhase.PLACEMENT) return state;
+  const playerIdx = state.players.findIndex(p => p.id === action.playerId);
+  if (playerIdx === -1) return state;
+  const handIndex = state.players[playerIdx].hand.findIndex(c => c.id === action.cardId);
+  if (handIndex === -1) return state;
+  const card = state.players[playerIdx].hand[handIndex];
+
+  const players = state.players.map(p =>
+    p.id === action.playerId ? { ...p, hand: p.hand.filter(c => c.id !== card.id) } : p
+  );
+
+  const playedCard: Card = { ...card, isFaceUp: action.faceUp, ownerId: action.playerId };
+  const clockSegments = state.clockSegments.map(seg =>
+    seg.index === action.segmentIndex ? { ...seg, cards: [...seg.cards, playedCard] } : seg
+  );
+
+  const next: GameState = {
+    ...state,
+    players,
+    clockSegments,
+    currentPlayerIndex: (playerIdx + 1) % players.length,
+    faceUpTokensUsed: action.faceUp ? state.faceUpTokensUsed + 1 : state.faceUpTokensUsed,
+    cardsPlayedCount: state.cardsPlayedCount + 1,
+    lastPlay: { playerId: action.playerId, segmentIndex: action.segmentIndex, handIndex },
+    takeBack: null,
+  };
+
+  // Last card played -> flip to resolution
+  if (players.every(p => p.hand.length === 0)) {
+    return { ...next, phase: GamePhase.RESOLUTION, resolutionStep: 0, systemMessage: { code: 'RESOLVING' } };
+  }
+  return next;
+};
+
+// --- Take-backs ---
+// Whoever made the last play may ask for it back; every other human still at
+// the table has to accept. Bots and away seats have no say.
+
+export const getTakeBackVoters = (state: GameState, requesterId: string) =>
+  state.players.filter(p => p.id !== requesterId && !p.botLevel && !p.away).map(p => p.id);
+
+// Card back into the hand, token refunded, turn back to the player
+const undoLastPlay = (state: GameState): GameState => {
+  const { playerId, segmentIndex, handIndex } = state.lastPlay!;
+  const segment = state.clockSegments[segmentIndex];
+  const { ownerId, ...card } = segment.cards[segment.cards.length - 1];
+  const playerIdx = state.players.findIndex(p => p.id === playerId);
+
+  return {
+    ...state,
+    players: state.players.map((p, i) => {
+      if (i !== playerIdx) return p;
+      const hand = [...p.hand];
+      hand.splice(handIndex, 0, { ...card, isFaceUp: false });
+      return { ...p, hand };
+    }),
+    clockSegments: state.clockSegments.map(seg =>
+      seg.index === segmentIndex ? { ...seg, cards: seg.cards.slice(0, -1) } : seg
+    ),
+    currentPlayerIndex: playerIdx,
+    faceUpTokensUsed: card.isFaceUp ? state.faceUpTokensUsed - 1 : state.faceUpTokensUsed,
+    cardsPlayedCount: state.cardsPlayedCount - 1,
+    lastPlay: null,
+    takeBack: null,
+    systemMessage: { code: 'TAKEN_BACK', params: { name: state.players[playerIdx].name } },
+  };
+};
+
+const requestTakeBack = (state: GameState, action: Extract<GameAction, { type: 'RequestTakeBack' }>): GameState => {
+  if (!state.allowTakeBacks || state.phase !== GamePhase.PLACEMENT || state.takeBack) return state;
+  if (state.lastPlay?.playerId !== action.playerId) return state;
+  if (getTakeBackVoters(state, action.playerId).length === 0) return undoLastPlay(state);
+  return { ...state, takeBack: { playerId: action.playerId, accepted: [] } };
+};
+
+const voteTakeBack = (state: GameState, action: Extract<GameAction, { type: 'VoteTakeBack' }>): GameState => {
+  const vote = state.takeBack;
+  if (!vote || state.phase !== GamePhase.PLACEMENT) return state;
+  const voters = getTakeBackVoters(state, vote.playerId);
+  if (!voters.includes(action.playerId) || vote.accepted.includes(action.playerId)) return state;
+
+  if (!action.accept) {
+    const name = state.players.find(p => p.id === action.playerId)!.name;
+    return { ...state, takeBack: null, systemMessage: { code: 'TAKE_BACK_DECLINED', params: { name } } };
+  }
+  const accepted = [...vote.accepted, action.playerId];
+  if (voters.every(id => accepted.includes(id))) return undoLastPlay(state);
+  return { ...state, takeBack: { ...vote, accepted } };
+};
+
+// Connection status of a human seat. Coming back always hands the seat back.
+const setPresence = (state: GameState, action: Extract<GameAction, { type: 'SetPresence' }>): GameState => {
+  if (!state.players.some(p => p.id === action.playerId)) return state;
+  const next: GameState = {
+    ...state,
+    players: state.players.map(p => {
+      if (p.id !== action.playerId) return p;
+      const { away, standIn, ...rest } = p;
+      if (!action.away) return rest;
+      return action.standIn ? { ...rest, away: true, standIn: action.standIn } : { ...rest, away: true };
+    }),
+  };
+  // A voter leaving can complete a pending take-back
+  const vote = next.takeBack;
+  if (vote && getTakeBackVoters(next, vote.playerId).every(id => vote.accepted.includes(id))) return undoLastPlay(next);
+  return next;
+};
+
+// The table size sets the face-up tokens, unless the clock says otherwise
+export const getFaceUpLimit = (state: GameState) =>
+  state.clock.faceUpLimit ?? PLAYER_COUNT_RULES[state.players.length]?.faceUpTokens ?? 0;
+
+// Full check of a move against the authoritative state. `reduce` stays lenient
+// (bots may be forced into an illegal play), so anything coming from a peer or
+// the local UI should pass through here first.
+export const validateMove = (state: GameState, action: Extract<GameAction, { type: 'PlayCard' }>): MoveCheck => {
+  if (state.phase !== GamePhase.PLACEMENT) {
+    return { passed: false, reason: 'WRONG_PHASE' };
+  }
+  const player = state.players.find(p => p.id === action.playerId);
+  if (!player) {
+    return { passed: false, reason: 'UNKNOWN_PLAYER' };
+  }
+  if (state.players[state.currentPlayerIndex]?.id !== action.playerId) {
+    return { passed: false, reason: 'NOT_YOUR_TURN' };
+  }
+  if (state.takeBack) {
+    return { passed: false, reason: 'TAKE_BACK_PENDING' };
+  }
+  const card = player.hand.find(c => c.id === action.cardId);
+  if (!card) {
+    return { passed: false, reason: 'CARD_NOT_IN_HAND' };
+  }
+  if (!Number.isInteger(action.segmentIndex) || action.segmentIndex < 0 || action.segmentIndex >= TOTAL_SEGMENTS) {
+    return { passed: false, reason: 'INVALID_SEGMENT' };
+  }
+  if (action.faceUp && state.faceUpTokensUsed >= getFaceUpLimit(state)) {
+    return { passed: false, reason: 'NO_FACE_UP_TOKENS' };
+  }
+
+  const placement = checkPlacement(card, action.segmentIndex, state.clockSegments, state.clock, state.cardsPlayedCount);
+  if (!placement.passed) {
+    return { ...placement, reason: 'PLACEMENT_RESTRICTED' };
+  }
+  return { passed: true };
+};
+
+// Reveals the next slot in resolution order (from the hand). Results come from
+// resolveClock, so the animated slots always agree with the final verdict.
+const resolveStep = (state: GameState): GameState => {
+  if (state.phase !== GamePhase.RESOLUTION) return state;
+  const step = state.resolutionStep;
+  if (step < 0 || step >= TOTAL_SEGMENTS) return state;
+
+  const resolution = resolveClock(state.clockSegments, state.clock);
+  const next: GameState = {
+    ...state,
+    resolutionStep: step + 1,
+    resolutionResults: [...state.resolutionResults, resolution.segments[step]],
+  };
+
+  if (next.resolutionStep === TOTAL_SEGMENTS) {
+    next.outcome = resolution.passed ? 'VICTORY' : 'DEFEAT';
+    next.systemMessage = resolution.passed ? { code: 'VICTORY' } : { code: 'DEFEAT', rule: resolution.global[0] };
+  }
+  return next;
+};
+
+export const reduce = (state: GameState, action: GameAction): GameState => {
+  switch (action.type) {
+    case 'Deal':
+      return deal(state, action);
+    case 'ClaimStart':
+      return claimStart(state, action);
+    case 'PlayCard':
+      return playCard(state, action);
+    case 'RequestTakeBack':
+      return requestTakeBack(state, action);
+    case 'VoteTakeBack':
+      return voteTakeBack(state, action);
+    case 'SetPresence':
+      return setPresence(state, action);
+    case 'ResolveStep':
+      return resolveStep(state);
+    case 'ClearMessage':
+      return { ...state, systemMessage: null };
+    case 'Reset':
+      return createLobbyState();
+    default:
+      return state;
+  }
+};
+
+export const isResolutionComplete = (state: GameState) =>
+  state.phase === GamePhase.RESOLUTION && state.resolutionStep === TOTAL_SEGMENTS;
@@ -1,7 +1,11 @@
-import { Card, CardType, ClockDefinition, ClockSegment, ValidationResult } from '../types';
-import { sumCards, TOTAL_SEGMENTS } from '../constants';
-
-export const createDeck = (): Card[] => {
+import {
+  Card, CardType, ClockDefinition, ClockResolution, ClockSegment, SegmentFailure, SegmentResult, ValidationResult
+} from '../types';
+import { getPlayerCountRules, sumCards, TOTAL_SEGMENTS } from '../constants';
+import { checkGlobalRules, checkPlacement, checkSegment } from './clockRules';
+import { Rng } from './random';
+
+export const createDeck = (rng: Rng = Math.random): Card[] => {
   const deck: Card[] = [];
   for (let i = 1; i <= 12; i++) {
     deck.push({ id: `s-${i}`, type: CardType.SOLAR, value: i, isFaceUp: false });
@@ -9,13 +13,13 @@ export const createDeck = (): Card[] => {
   for (let i = 1; i <= 12; i++) {
     deck.push({ id: `l-${i}`, type: CardType.LUNAR, value: i, isFaceUp: false });
   }
-  return shuffle(deck);
+  return shuffle(deck, rng);
 };
 
-const shuffle = <T,>(array: T[]): T[] => {
+const shuffle = <T,>(array: T[], rng: Rng): T[] => {
   let currentIndex = array.length, randomIndex;
   while (currentIndex !== 0) {
-    randomIndex = Math.floor(Math.random() * currentIndex);
+    randomIndex = Math.floor(rng() * currentIndex);
     currentIndex--;
     [array[currentIndex], array[randomIndex]] = [array[randomIndex], array[currentIndex]];
   }
@@ -23,15 +27,9 @@ const shuffle = <T,>(array: T[]): T[] => {
 };
 
 export const dealCards = (deck: Card[], playerCount: number) => {
+  // Throws for a table size the rules do not cover rather than dealing a wrong hand
+  const { cardsPerPlayer } = getPlayerCountRules(playerCount);
   const hands: Card[][] = Array.from({ length: playerCount }, () => []);
-  
-  // Rule: Always 12 cards in play total (timeline).
-  // 3 Players -> 4 Cards each (12 total)
-  // 4 Players -> 3 Cards each (12 total)
-  
-  let cardsPerPlayer = 4;
-  if (playerCount === 4) cardsPerPlayer = 3;
-  if (playerCount === 2) cardsPerPlayer = 6;
 
   let cardIdx = 0;
   for (let p = 0; p < playerCount; p++) {
@@ -53,11 +51,7 @@ export const isValidMove = (
     definition: ClockDefinition, 
     cardsPlayedTotal: number
 ): boolean => {
-    if (definition.placementRestriction) {
-        const res = definition.placementRestriction(card, segmentIndex, segments, cardsPlayedTotal);
-        if (!res.passed) return false;
-    }
-    return true;
+    return checkPlacement(card, segmentIndex, segments, definition, cardsPlayedTotal).passed;
 };
 
 // Find a valid move for the bot
@@ -65,7 +59,8 @@ export const findBestBotMove = (
     hand: Card[], 
     segments: ClockSegment[], 
     definition: ClockDefinition, 
-    cardsPlayedTotal: number
+    cardsPlayedTotal: number,
+    rng: Rng = Math.random
 ): { card: Card, segmentIndex: number } | null => {
     
     // 1. Try to find a valid move
@@ -81,64 +76,63 @@ export const findBestBotMove = (
 
     if (validMoves.length > 0) {
         // Randomly pick a valid move
-        return validMoves[Math.floor(Math.random() * validMoves.length)];
+        return validMoves[Math.floor(rng() * validMoves.length)];
     }
 
     // 2. If no valid moves, must play somewhere (even if it violates rules)
     // Just pick random
     if (hand.length > 0) {
-        return { card: hand[0], segmentIndex: Math.floor(Math.random() * TOTAL_SEGMENTS) };
+        return { card: hand[0], segmentIndex: Math.floor(rng() * TOTAL_SEGMENTS) };
     }
 
     return null;
 };
 
-export const validateClock = (segments: ClockSegment[], definition: ClockDefinition): ValidationResult[] => {
-  const results: ValidationResult[] = [];
-
-  // 1. At least 1 card per segment
-  segments.forEach(seg => {
-    if (seg.cards.length === 0) {
-      results.push({ passed: false, message: `Segment ${seg.index + 1} is empty.` });
-    }
-  });
+// Resolve the clock slot by slot, starting at the hand and wrapping around.
+// This is the single source for both the animated reveal and the final verdict.
+export const resolveClock = (segments: ClockSegment[], definition: ClockDefinition): ClockResolution => {
+  const results: SegmentResult[] = [];
+  let previousSum: number | null = null;
 
-  // 2. Ascending order relative to hand
-  let previousSum = -1;
   for (let i = 0; i < TOTAL_SEGMENTS; i++) {
     const currentIdx = (definition.startingSegmentIndex + i) % TOTAL_SEGMENTS;
-    const currentSum = sumCards(segments[currentIdx].cards);
-
-    if (i === 0) {
-      previousSum = currentSum;
-    } else {
-      if (currentSum < previousSum) {
-        results.push({ 
-          passed: false, 
-          message: `Ascending violation at Segment ${currentIdx + 1} (Sum: ${currentSum}) vs previous (Sum: ${previousSum}).` 
-        });
-      }
-      previousSum = currentSum;
+    const segment = segments[currentIdx];
+    const currentSum = sumCards(segment.cards);
+    const slot = currentIdx + 1;
+    const fail = (failedRule: SegmentFailure, check: ValidationResult): SegmentResult =>
+      ({ ...check, index: currentIdx, passed: false, failedRule });
+
+    let result: SegmentResult = { index: currentIdx, passed: true };
+    const ruleCheck = checkSegment(segment, segments, definition);
+
+    if (segment.cards.length === 0) {
+      result = fail('EMPTY', { passed: false, code: 'EMPTY_SLOT', params: { slot } });
+    } else if (!ruleCheck.passed) {
+      result = fail('SEGMENT_RULE', ruleCheck);
+    } else if (previousSum !== null && currentSum < previousSum) {
+      result = fail('ASCENDING', { passed: false, code: 'NOT_ASCENDING', params: { slot, sum: currentSum, previous: previousSum } });
+    } else if (definition.maxTotal && currentSum > definition.maxTotal) {
+      result = fail('MAX_TOTAL', { passed: false, code: 'OVER_MAX_TOTAL', params: { slot, sum: currentSum, max: definition.maxTotal } });
     }
 
-    if (definition.maxTotal && currentSum > definition.maxTotal) {
-       results.push({ 
-          passed: false, 
-          message: `Segment ${currentIdx + 1} sum (${currentSum}) exceeds limit of ${definition.maxTotal}.` 
-        });
-    }
-
-    if (definition.segmentRules && definition.segmentRules[currentIdx]) {
-      const res = definition.segmentRules[currentIdx](segments[currentIdx]);
-      if (!res.passed) results.push(res);
-    }
+    results.push(result);
+    previousSum = currentSum;
   }
 
-  if (definition.globalRules) {
-    const res = definition.globalRules(segments);
-    if (!res.passed) results.push(res);
-  }
+  const global = checkGlobalRules(segments, definition);
+  return {
+    segments: results,
+    global,
+    passed: results.every(r => r.passed) && global.length === 0,
+  };
+};
 
-  if (results.length === 0) return [{ passed: true, message: "Clock Validated Successfully!" }];
-  return results;
-};
\ No newline at end of file
+export const validateClock = (segments: ClockSegment[], definition: ClockDefinition): ValidationResult[] => {
+  const resolution = resolveClock(segments, definition);
+  if (resolution.passed) return [{ passed: true }];
+
+  return [
+    ...resolution.segments.filter(r => !r.passed).map(({ passed, code, params }) => ({ passed, code, params })),
+    ...resolution.global,
+  ];
+};
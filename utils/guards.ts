@@ -0,0 +1,5 @@
+// Type guards for checking untrusted data: wire messages and JSON clock definitions.
+
+export const isObject = (v: unknown): v is Record<string, any> => typeof v === 'object' && v !== null && !Array.isArray(v);
+export const isInt = (v: unknown): v is number => typeof v === 'number' && Number.isInteger(v);
+export const isString = (v: unknown): v is string => typeof v === 'string';
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { MoveRejectionReason, RuleCode, SystemMessageCode } from '../types';
+import type { ProtocolErrorCode } from './protocol';
+import { Locale, LOCALES, createTranslator, formatPhrase, hasMessage, movePhrase, rulePhrase, systemPhrase } from './i18n';
+
+// Records rather than arrays, so the type-check fails when a new code is not listed here
+const RULE_CODES: Record<RuleCode, true> = {
+  CARD_COUNT: true, SUM_OUT_OF_RANGE: true, TYPE_COUNT: true, PARITY: true, MIXED_PARITY: true, SUM_NOT_EQUAL: true,
+  TOTAL_OUT_OF_RANGE: true, SHARED_SUM: true, SPREAD_TOO_WIDE: true, NTH_CARD_TO_SLOT: true, SLOT_ACCEPTS: true,
+  SLOT_TYPE_FULL: true, SLOT_FULL: true, EMPTY_SLOT: true, NOT_ASCENDING: true, OVER_MAX_TOTAL: true,
+};
+const MOVE_REASONS: Record<MoveRejectionReason, true> = {
+  WRONG_PHASE: true, UNKNOWN_PLAYER: true, NOT_YOUR_TURN: true, CARD_NOT_IN_HAND: true, INVALID_SEGMENT: true,
+  PLACEMENT_RESTRICTED: true, NO_FACE_UP_TOKENS: true, TAKE_BACK_PENDING: true,
+};
+const SYSTEM_CODES: Record<SystemMessageCode, true> = {
+  STARTS: true, RESOLVING: true, TAKEN_BACK: true, TAKE_BACK_DECLINED: true, VICTORY: true, DEFEAT: true,
+};
+const ERROR_CODES: Record<ProtocolErrorCode, true> = {
+  INCOMPATIBLE_VERSION: true, MALFORMED_MESSAGE: true, NO_FREE_SEAT: true, SEATS_LOCKED: true, RECOVERY_FAILED: true,
+};
+
+const CODE_KEYS = [
+  ...Object.keys(RULE_CODES).map(code => `rule.${code}`),
+  ...Object.keys(MOVE_REASONS).map(reason => `move.${reason}`),
+  ...Object.keys(SYSTEM_CODES).map(code => `system.${code}`),
+  ...Object.keys(ERROR_CODES).map(code => `error.${code}`),
+];
+
+// Every parameter any rule message uses
+const SAMPLE_PARAMS = {
+  slot: 3, other: 4, sum: 15, otherSum: 9, total: 40, previous: 18, count: 2, min: 8, max: 12,
+  spread: 21, nth: 1, cardType: 'LUNAR', parity: 'ODD', name: 'Ada',
+};
+
+const en = createTranslator('en');
+const de = createTranslator('de');
+
+describe('catalogues', () => {
+  (Object.keys(LOCALES) as Locale[]).forEach(locale => {
+    it(`words every rule, move, system and error code in ${locale}`, () => {
+      expect(CODE_KEYS.filter(key => !hasMessage(locale, key))).toEqual([]);
+    });
+
+    it(`fills in every placeholder of the rule messages in ${locale}`, () => {
+      const t = createTranslator(locale);
+      (Object.keys(RULE_CODES) as RuleCode[]).forEach(code => {
+        const text = formatPhrase(t, rulePhrase({ code, params: SAMPLE_PARAMS }));
+        expect(text, code).not.toMatch(/[{}]|undefined|rule\./);
+      });
+    });
+  });
+});
+
+describe('formatPhrase', () => {
+  it('words a rule failure from its code and params', () => {
+    const phrase = rulePhrase({ code: 'SUM_OUT_OF_RANGE', params: { slot: 3, sum: 15, min: 8, max: 12 } });
+    expect(phrase).toEqual({ key: 'rule.SUM_OUT_OF_RANGE', params: { slot: 3, sum: 15, min: 8, max: 12 } });
+    expect(formatPhrase(en, phrase)).toBe('Slot 3 sum is 15, must be 8-12.');
+    expect(formatPhrase(de, phrase)).toBe('Summe in Feld 3 ist 15, erlaubt ist 8-12.');
+  });
+
+  it('words bounds and card types per language', () => {
+    const phrase = rulePhrase({ code: 'TYPE_COUNT', params: { slot: 1, cardType: 'LUNAR', count: 0, min: 1, max: 1 } });
+    expect(formatPhrase(en, phrase)).toBe('Slot 1 must have exactly 1 Lunar card.');
+    expect(formatPhrase(de, phrase)).toBe('Feld 1 braucht genau 1 Mondkarte.');
+    const atMost = rulePhrase({ code: 'SUM_OUT_OF_RANGE', params: { slot: 2, sum: 30, max: 25 } });
+    expect(formatPhrase(en, atMost)).toBe('Slot 2 sum is 30, must be at most 25.');
+    expect(formatPhrase(de, atMost)).toBe('Summe in Feld 2 ist 30, erlaubt ist höchstens 25.');
+  });
+
+  it('words nested phrases in the same language', () => {
+    const defeat = systemPhrase({ code: 'DEFEAT', rule: { passed: false, code: 'SPREAD_TOO_WIDE', params: { spread: 21, max: 20 } } });
+    expect(formatPhrase(en, defeat)).toBe('DEFEAT! Slot sums spread by 21, limit is 20.');
+    expect(formatPhrase(de, defeat)).toBe('NIEDERLAGE! Feldsummen liegen 21 auseinander, erlaubt sind 20.');
+    expect(formatPhrase(de, systemPhrase({ code: 'STARTS', params: { name: 'Ada' } }))).toBe('Ada beginnt!');
+  });
+
+  it('prefers the rule code of a rejected move over its reason', () => {
+    const restricted = movePhrase({ reason: 'PLACEMENT_RESTRICTED', code: 'SLOT_FULL', params: { slot: 4, max: 2 } });
+    expect(formatPhrase(en, restricted)).toBe('Slot 4 is full (Max 2).');
+    expect(formatPhrase(de, movePhrase({ reason: 'NOT_YOUR_TURN' }))).toBe('Du bist nicht am Zug.');
+  });
+
+  it('shows the key for a code no catalogue knows', () => {
+    expect(en('rule.NO_SUCH_RULE' as any)).toBe('rule.NO_SUCH_RULE');
+  });
+});
@@ -0,0 +1,618 @@
+import { createContext, useContext } from 'react';
+import { ClockDefinition, MessageParams, MoveCheck, SystemMessage, ValidationResult } from '../types';
+
+// Message catalogue. The rules, the engine and the wire only carry codes and
+// parameters; the words are picked here, on each screen, in that player's
+// language. A key missing from a locale falls back to English.
+
+export type Locale = 'en' | 'de';
+
+// Shown in their own language, so a player can always find theirs
+export const LOCALES: Record<Locale, string> = {
+  en: 'English',
+  de: 'Deutsch',
+};
+
+type Entry = string | ((params: MessageParams) => string);
+
+// A parameter can be a phrase of its own; it is translated before it is filled in
+export type PhraseParams = Record<string, string | number | Phrase>;
+
+// Something to say, kept as data until it is shown so it follows a locale switch
+export interface Phrase {
+  key: MessageKey;
+  params?: PhraseParams;
+}
+
+export type Translate = (key: MessageKey, params?: PhraseParams) => string;
+
+// --- English ---
+
+const EN_TYPE: Record<string, string> = { SOLAR: 'Solar', LUNAR: 'Lunar' };
+
+const enRange = (p: MessageParams) => {
+  if (p.min !== undefined && p.max !== undefined) return p.min === p.max ? `${p.min}` : `${p.min}-${p.max}`;
+  if (p.min !== undefined) return `at least ${p.min}`;
+  return `at most ${p.max}`;
+};
+
+const enCount = (p: MessageParams, one: string, many: string) => {
+  const n = (count: string | number) => `${count} ${count === 1 ? one : many}`;
+  if (p.min !== undefined && p.min === p.max) return `exactly ${n(p.min)}`;
+  if (p.min !== undefined && p.max !== undefined) return `${p.min}-${p.max} ${many}`;
+  if (p.min !== undefined) return `at least ${n(p.min)}`;
+  return `at most ${n(p.max)}`;
+};
+
+const enOrdinal = (n: number) => {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ({ 1: 'st', 2: 'nd', 3: 'rd' } as Record<number, string>)[n % 10] || 'th';
+  return `${n}${suffix}`;
+};
+
+const EN = {
+  'card.SOLAR': 'Solar',
+  'card.LUNAR': 'Lunar',
+  'card.label': '{type} {value}',
+  'card.labelFaceUp': '{type} {value}, face up',
+  'card.labelHidden': '{type} card, hidden',
+  'card.titleHidden': '{type} Card (Hidden)',
+
+  'rule.CARD_COUNT': p => `Slot ${p.slot} must have ${enCount(p, 'card', 'cards')}.`,
+  'rule.SUM_OUT_OF_RANGE': p => `Slot ${p.slot} sum is ${p.sum}, must be ${enRange(p)}.`,
+  'rule.TYPE_COUNT': p => `Slot ${p.slot} must have ${enCount(p, `${EN_TYPE[p.cardType]} card`, `${EN_TYPE[p.cardType]} cards`)}.`,
+  'rule.PARITY': p => `Slot ${p.slot} only takes ${p.parity === 'EVEN' ? 'even' : 'odd'} cards.`,
+  'rule.MIXED_PARITY': 'Slot {slot} cards must all be even or all odd.',
+  'rule.SUM_NOT_EQUAL': 'Slot {slot} sum is {sum}, must equal Slot {other} ({otherSum}).',
+  'rule.TOTAL_OUT_OF_RANGE': p => `Clock total is ${p.total}, must be ${enRange(p)}.`,
+  'rule.SHARED_SUM': 'Slot {slot} and Slot {other} share the sum {sum}.',
+  'rule.SPREAD_TOO_WIDE': 'Slot sums spread by {spread}, limit is {max}.',
+  'rule.NTH_CARD_TO_SLOT': p => `${enOrdinal(Number(p.nth))} card must go to Slot ${p.slot}.`,
+  'rule.SLOT_ACCEPTS': p => `Slot ${p.slot} only accepts ${EN_TYPE[p.cardType]} cards.`,
+  'rule.SLOT_TYPE_FULL': p =>
+    `Slot ${p.slot} already has ${p.max === 1 ? `a ${EN_TYPE[p.cardType]} card` : `${p.max} ${EN_TYPE[p.cardType]} cards`}.`,
+  'rule.SLOT_FULL': 'Slot {slot} is full (Max {max}).',
+  'rule.EMPTY_SLOT': 'Slot {slot} is empty.',
+  'rule.NOT_ASCENDING': 'Not ascending: {sum} after {previous}.',
+  'rule.OVER_MAX_TOTAL': 'Sum {sum} exceeds limit of {max}.',
+  'rule.FAILED': 'Rule failed.',
+
+  'move.WRONG_PHASE': 'Cards can only be placed during placement.',
+  'move.UNKNOWN_PLAYER': 'You are not seated in this game.',
+  'move.NOT_YOUR_TURN': 'It is not your turn.',
+  'move.TAKE_BACK_PENDING': 'Wait for the take-back vote.',
+  'move.CARD_NOT_IN_HAND': 'That card is not in your hand.',
+  'move.INVALID_SEGMENT': 'There is no such slot.',
+  'move.NO_FACE_UP_TOKENS': 'No face-up tokens left.',
+  'move.PLACEMENT_RESTRICTED': 'That slot does not accept this card.',
+
+  'system.STARTS': '{name} starts!',
+  'system.RESOLVING': 'Resolving...',
+  'system.TAKEN_BACK': '{name} takes back their play.',
+  'system.TAKE_BACK_DECLINED': '{name} declined the take-back.',
+  'system.VICTORY': 'VICTORY!',
+  'system.DEFEAT': 'DEFEAT!',
+  'system.DEFEAT_RULE': 'DEFEAT! {rule}',
+
+  'outcome.VICTORY': 'VICTORY',
+  'outcome.DEFEAT': 'DEFEAT',
+
+  'error.INCOMPATIBLE_VERSION': 'Version mismatch: someone at the table is running an old build; reload the page.',
+  'error.MALFORMED_MESSAGE': 'A message from the other side could not be read.',
+  'error.NO_FREE_SEAT': 'No bot seat is free.',
+  'error.SEATS_LOCKED': 'Seats can only change between games.',
+  'error.RECOVERY_FAILED': 'Too few of the players holding part of the deal came back, so the game cannot be recovered. Start a new one from the lobby.',
+
+  'feedback.sessionRestored': 'Session Restored. Waiting for players...',
+  'feedback.networkUnavailable': 'Network unavailable',
+  'feedback.networkError': 'Network Error: {type}',
+  'feedback.peerVersion': 'A player with a different app version tried to join.',
+  'feedback.rejoined': '{name} rejoined.',
+  'feedback.reconnected': '{name} reconnected!',
+  'feedback.watching': '{name} is watching.',
+  'feedback.joinedLobby': '{name} joined lobby.',
+  'feedback.recoverFailed': 'Could not recover the game.',
+  'feedback.recovered': 'Game recovered!',
+  'feedback.takesSeat': '{name} takes a seat.',
+  'feedback.enterCode': 'Enter Code',
+  'feedback.connecting': 'Connecting...',
+  'feedback.connected': 'Connected! Waiting...',
+  'feedback.readyToConnect': 'Ready to connect...',
+  'feedback.rejected': 'Rejected: {reason}',
+  'feedback.connectFailed': 'Connect Failed',
+  'feedback.disconnected': 'Disconnected',
+  'feedback.hostLeft': 'Host left the game.',
+  'feedback.hostReturning': 'Lost the host. Waiting to see if it comes back...',
+  'feedback.hostLeftWaiting': 'Host left. Waiting for everyone to rejoin...',
+  'feedback.hostLeftReconnecting': 'Host left. Reconnecting to {name}...',
+  'feedback.askingSeat': 'Asking for a seat...',
+  'feedback.waitingHost': 'Waiting for host...',
+  'feedback.selectCard': 'Select a card first.',
+  'feedback.invalid': 'Invalid: {reason}',
+  'feedback.sending': 'Sending...',
+  'feedback.copied': 'Copied!',
+  'feedback.copyFailed': 'Copy Failed',
+  'feedback.dealFallback': 'No {mode} deal turned up, so this one is random.',
+
+  'common.you': '(You)',
+  'seat.player': 'Player {n}',
+  'seat.bot': 'Bot {n}',
+  'bot.EASY': 'Easy',
+  'bot.NORMAL': 'Normal',
+  'bot.HARD': 'Hard',
+  'deal.RANDOM': 'Random',
+  'deal.SOLVABLE': 'Solvable',
+  'deal.HARD': 'Hard',
+  'deal.EXPERT': 'Expert',
+  'theme.CLASSIC': 'Classic',
+  'theme.COLORBLIND': 'Colour-blind safe',
+  'theme.HIGH_CONTRAST': 'High contrast',
+
+  'lobby.yourName': 'Your Name',
+  'lobby.confirmMoves': 'Confirm each move before it is sent (dragging a card always places it)',
+  'lobby.cardColours': 'Card colours',
+  'lobby.language': 'Language',
+  'lobby.host': 'Host Game',
+  'lobby.join': 'Join Game',
+  'lobby.totalPlayers': 'Total Players',
+  'lobby.deal': 'Deal',
+  'lobby.dealSolvable': 'Only deals that can be won.',
+  'lobby.dealHard': 'Only deals that can be won, preferring ones with few solutions.',
+  'lobby.lobbyCode': 'Lobby Code',
+  'lobby.clickToCopy': 'Click to Copy',
+  'lobby.inviteLink': 'Invite Link',
+  'lobby.copy': 'Copy',
+  'lobby.members': 'Lobby Members:',
+  'lobby.thisDevice': '(this device)',
+  'lobby.botsFill': 'Remaining slots will be filled by Bots.',
+  'lobby.addHotseat': '+ Player on this device (hotseat)',
+  'lobby.standIn': 'Let a bot play for disconnected players after {seconds}s',
+  'lobby.takeBacks': 'Allow take-backs (the other players vote)',
+  'lobby.players': 'Players:',
+  'lobby.spectators': 'Spectators:',
+  'lobby.selectMission': 'Select Mission:',
+  'lobby.continueCampaign': 'Continue Campaign: {clock}',
+  'lobby.campaignComplete': 'Campaign Complete!',
+  'lobby.chapter': 'Chapter {chapter}',
+  'lobby.locked': 'Beat the previous clock to unlock',
+  'lobby.replayCode': 'Replay a Deal Code',
+  'lobby.codeExample': 'e.g. C1-3.3.1Z4K9Q',
+  'lobby.play': 'Play',
+  'lobby.unknownCode': 'Unknown deal code.',
+  'lobby.pasteCode': 'Paste Code Here',
+  'lobby.connect': 'CONNECT',
+  'lobby.watch': 'WATCH',
+  'lobby.watchTitle': 'Join as a spectator',
+  'lobby.takeBotSeat': 'Take a Bot Seat',
+  'lobby.lastMatch': 'Watch the last match',
+
+  'game.waiting': 'WAITING...',
+  'game.yourTurn': 'YOUR TURN',
+  'game.theirTurn': "{name}'s Turn",
+  'game.playFaceUp': 'Play Face Up',
+  'game.keys': 'Keys: ←/→ pick a card · F face up · 1–6 place · Esc cancel',
+  'game.placeOn': 'Place on slot {slot}?',
+  'game.confirm': 'Confirm',
+  'game.cancel': 'Cancel',
+  'game.yourHand': 'Your hand',
+  'game.dealCode': 'Deal code (click to copy)',
+  'game.move': 'Move',
+  'game.takeBack': '↶ Take Back',
+  'game.takeBackTitle': 'Ask the table to undo your last play',
+  'game.iStart': 'I Start!',
+  'game.seatStarts': '{name} Starts!',
+  'game.away': 'away',
+  'game.standIn': 'A bot is playing until they return',
+  'game.disconnected': 'Disconnected',
+  'game.faceUp': 'Face Up',
+  'game.abort': 'Abort Game',
+  'game.abortConfirm': 'Abort current game?',
+  'game.takeBackRequest': '{name} wants to take back their last play.',
+  'game.accept': 'Accept',
+  'game.decline': 'Decline',
+  'game.takeBackWaiting': 'Waiting for the table ({accepted}/{voters} accepted)...',
+  'game.solvable': 'This deal was solvable ({count} solutions).',
+  'game.solvableCapped': 'This deal was solvable ({count}+ solutions).',
+  'game.mustStart': '{name} has to start.',
+  'game.showOurs': 'Show our clock',
+  'game.showSolution': 'Show one solution',
+  'game.unwinnable': 'No arrangement could have won this deal.',
+  'game.watchReplay': 'Watch Replay',
+  'game.returnToLobby': 'Return to Lobby',
+  'game.passDevice': 'Pass the device to {name}',
+  'game.showHand': "I'm {name}: Show My Hand",
+  'game.hotseatStart': 'Decide who goes first, then press their "Starts!" button above.',
+  'game.waitingFor': 'Waiting for {name}...',
+  'game.spectating': 'Spectating: hands stay hidden until the clock resolves.',
+  'game.noSuccessor': 'No player here can take over as host: if the host leaves, this game ends.',
+  'game.noSuccessorHost': 'No player connected can take over as host: if you leave, the game ends for everyone watching.',
+  'game.decideStart': 'Decide who goes first, then click "I Start" above!',
+
+  'announce.yourTurn': 'Your turn.',
+  'announce.seatTurn': '{name}, your turn.',
+  'announce.theirTurn': "{name}'s turn.",
+  'announce.selected': '{card} selected.',
+  'announce.faceUp': 'Face up.',
+  'announce.faceDown': 'Face down.',
+
+  'clock.group': '{name} clock',
+  'clock.slot': 'Slot {slot}',
+  'clock.empty': 'empty',
+  'clock.cards': p => `${p.count} card${p.count === 1 ? '' : 's'}`,
+  'clock.showing': 'showing {cards}',
+  'clock.sum': 'sum {sum}',
+  'clock.allowed': 'allowed for the selected card',
+  'clock.notAllowed': 'not allowed for the selected card',
+  'clock.holds': 'holds',
+  'clock.breaks': 'breaks: {reason}',
+
+  'replay.deal': '{clock} dealt to {count} players',
+  'replay.claimStart': '{name} takes the first turn',
+  'replay.play': '{name} plays {card} to slot {slot}',
+  'replay.playFaceUp': '{name} plays {card} to slot {slot} face up (token {used}/{limit})',
+  'replay.aCard': 'a card',
+  'replay.hiddenCard': 'a {type} card',
+  'replay.holds': 'Slot {slot} holds',
+  'replay.breaks': 'Slot {slot} breaks: {reason}',
+  'replay.withOutcome': '{verdict} ({outcome})',
+  'replay.asksTakeBack': '{name} asks to take back their play',
+  'replay.takesBack': '{name} takes back their play',
+  'replay.acceptsTakeBack': '{name} accepts the take-back',
+  'replay.declinesTakeBack': '{name} declines the take-back',
+  'replay.takeBackDone': '{name} accepts the take-back; the play goes back to the hand',
+  'replay.back': '{name} is back',
+  'replay.standIn': 'A bot plays for {name}',
+  'replay.lostConnection': '{name} lost connection',
+  'replay.log': 'Match Log',
+  'replay.close': 'Close',
+  'replay.neverWinnable': 'No play could have won this deal.',
+  'replay.brokeAt': 'The clock broke at step {step}: {text}',
+} satisfies Record<string, Entry>;
+
+export type MessageKey = keyof typeof EN;
+
+// --- German ---
+
+const DE_TYPE: Record<string, [string, string]> = {
+  SOLAR: ['Sonnenkarte', 'Sonnenkarten'],
+  LUNAR: ['Mondkarte', 'Mondkarten'],
+};
+
+const deRange = (p: MessageParams) => {
+  if (p.min !== undefined && p.max !== undefined) return p.min === p.max ? `${p.min}` : `${p.min}-${p.max}`;
+  if (p.min !== undefined) return `mindestens ${p.min}`;
+  return `höchstens ${p.max}`;
+};
+
+const deCount = (p: MessageParams, [one, many]: [string, string]) => {
+  const n = (count: string | number) => `${count} ${count === 1 ? one : many}`;
+  if (p.min !== undefined && p.min === p.max) return `genau ${n(p.min)}`;
+  if (p.min !== undefined && p.max !== undefined) return `${p.min}-${p.max} ${many}`;
+  if (p.min !== undefined) return `mindestens ${n(p.min)}`;
+  return `höchstens ${n(p.max)}`;
+};
+
+const DE: Partial<Record<MessageKey, Entry>> = {
+  'card.SOLAR': 'Sonne',
+  'card.LUNAR': 'Mond',
+  'card.labelFaceUp': '{type} {value}, offen',
+  'card.labelHidden': '{type}, verdeckt',
+  'card.titleHidden': '{type} (verdeckt)',
+
+  'rule.CARD_COUNT': p => `Feld ${p.slot} braucht ${deCount(p, ['Karte', 'Karten'])}.`,
+  'rule.SUM_OUT_OF_RANGE': p => `Summe in Feld ${p.slot} ist ${p.sum}, erlaubt ist ${deRange(p)}.`,
+  'rule.TYPE_COUNT': p => `Feld ${p.slot} braucht ${deCount(p, DE_TYPE[p.cardType])}.`,
+  'rule.PARITY': p => `Feld ${p.slot} nimmt nur ${p.parity === 'EVEN' ? 'gerade' : 'ungerade'} Karten.`,
+  'rule.MIXED_PARITY': 'Karten in Feld {slot} müssen alle gerade oder alle ungerade sein.',
+  'rule.SUM_NOT_EQUAL': 'Summe in Feld {slot} ist {sum}, muss gleich Feld {other} sein ({otherSum}).',
+  'rule.TOTAL_OUT_OF_RANGE': p => `Gesamtsumme ist ${p.total}, erlaubt ist ${deRange(p)}.`,
+  'rule.SHARED_SUM': 'Feld {slot} und Feld {other} haben beide die Summe {sum}.',
+  'rule.SPREAD_TOO_WIDE': 'Feldsummen liegen {spread} auseinander, erlaubt sind {max}.',
+  'rule.NTH_CARD_TO_SLOT': 'Die {nth}. Karte muss in Feld {slot}.',
+  'rule.SLOT_ACCEPTS': p => `Feld ${p.slot} nimmt nur ${DE_TYPE[p.cardType][1]}.`,
+  'rule.SLOT_TYPE_FULL': p =>
+    `Feld ${p.slot} hat schon ${p.max === 1 ? `eine ${DE_TYPE[p.cardType][0]}` : `${p.max} ${DE_TYPE[p.cardType][1]}`}.`,
+  'rule.SLOT_FULL': 'Feld {slot} ist voll (höchstens {max}).',
+  'rule.EMPTY_SLOT': 'Feld {slot} ist leer.',
+  'rule.NOT_ASCENDING': 'Nicht aufsteigend: {sum} nach {previous}.',
+  'rule.OVER_MAX_TOTAL': 'Summe {sum} übersteigt das Limit von {max}.',
+  'rule.FAILED': 'Regel verletzt.',
+
+  'move.WRONG_PHASE': 'Karten werden nur in der Legephase gelegt.',
+  'move.UNKNOWN_PLAYER': 'Du sitzt in diesem Spiel nicht mit am Tisch.',
+  'move.NOT_YOUR_TURN': 'Du bist nicht am Zug.',
+  'move.TAKE_BACK_PENDING': 'Warte die Abstimmung über die Rücknahme ab.',
+  'move.CARD_NOT_IN_HAND': 'Diese Karte ist nicht auf deiner Hand.',
+  'move.INVALID_SEGMENT': 'Dieses Feld gibt es nicht.',
+  'move.NO_FACE_UP_TOKENS': 'Keine Marker zum Aufdecken mehr übrig.',
+  'move.PLACEMENT_RESTRICTED': 'Dieses Feld nimmt diese Karte nicht.',
+
+  'system.STARTS': '{name} beginnt!',
+  'system.RESOLVING': 'Auswertung...',
+  'system.TAKEN_BACK': '{name} nimmt den Zug zurück.',
+  'system.TAKE_BACK_DECLINED': '{name} hat die Rücknahme abgelehnt.',
+  'system.VICTORY': 'SIEG!',
+  'system.DEFEAT': 'NIEDERLAGE!',
+  'system.DEFEAT_RULE': 'NIEDERLAGE! {rule}',
+
+  'outcome.VICTORY': 'SIEG',
+  'outcome.DEFEAT': 'NIEDERLAGE',
+
+  'error.INCOMPATIBLE_VERSION': 'Versionskonflikt: Jemand am Tisch nutzt eine alte Version; lade die Seite neu.',
+  'error.MALFORMED_MESSAGE': 'Eine Nachricht der Gegenseite war nicht lesbar.',
+  'error.NO_FREE_SEAT': 'Kein Bot-Platz ist frei.',
+  'error.SEATS_LOCKED': 'Plätze können nur zwischen zwei Spielen getauscht werden.',
+  'error.RECOVERY_FAILED': 'Zu wenige der Spieler mit einem Teil der Verteilung sind zurückgekommen, das Spiel lässt sich nicht wiederherstellen. Startet in der Lobby ein neues.',
+
+  'feedback.sessionRestored': 'Sitzung wiederhergestellt. Warte auf Mitspieler...',
+  'feedback.networkUnavailable': 'Netzwerk nicht verfügbar',
+  'feedback.networkError': 'Netzwerkfehler: {type}',
+  'feedback.peerVersion': 'Jemand mit einer anderen App-Version wollte beitreten.',
+  'feedback.rejoined': '{name} ist wieder da.',
+  'feedback.reconnected': '{name} ist wieder verbunden!',
+  'feedback.watching': '{name} schaut zu.',
+  'feedback.joinedLobby': '{name} ist der Lobby beigetreten.',
+  'feedback.recoverFailed': 'Das Spiel konnte nicht wiederhergestellt werden.',
+  'feedback.recovered': 'Spiel wiederhergestellt!',
+  'feedback.takesSeat': '{name} setzt sich an den Tisch.',
+  'feedback.enterCode': 'Code eingeben',
+  'feedback.connecting': 'Verbinde...',
+  'feedback.connected': 'Verbunden! Warte...',
+  'feedback.readyToConnect': 'Bereit zum Verbinden...',
+  'feedback.rejected': 'Abgelehnt: {reason}',
+  'feedback.connectFailed': 'Verbindung fehlgeschlagen',
+  'feedback.disconnected': 'Getrennt',
+  'feedback.hostLeft': 'Der Host hat das Spiel verlassen.',
+  'feedback.hostReturning': 'Verbindung zum Host verloren. Warte, ob er zurückkommt...',
+  'feedback.hostLeftWaiting': 'Der Host ist weg. Warte, bis alle wieder da sind...',
+  'feedback.hostLeftReconnecting': 'Der Host ist weg. Verbinde neu mit {name}...',
+  'feedback.askingSeat': 'Frage nach einem Platz...',
+  'feedback.waitingHost': 'Warte auf den Host...',
+  'feedback.selectCard': 'Wähle zuerst eine Karte.',
+  'feedback.invalid': 'Ungültig: {reason}',
+  'feedback.sending': 'Sende...',
+  'feedback.copied': 'Kopiert!',
+  'feedback.copyFailed': 'Kopieren fehlgeschlagen',
+  'feedback.dealFallback': 'Keine Verteilung „{mode}“ gefunden, diese ist zufällig.',
+
+  'common.you': '(Du)',
+  'seat.player': 'Spieler {n}',
+  'bot.EASY': 'Leicht',
+  'bot.NORMAL': 'Normal',
+  'bot.HARD': 'Schwer',
+  'deal.RANDOM': 'Zufall',
+  'deal.SOLVABLE': 'Lösbar',
+  'deal.HARD': 'Schwer',
+  'deal.EXPERT': 'Experte',
+  'theme.CLASSIC': 'Klassisch',
+  'theme.COLORBLIND': 'Farbenblind-freundlich',
+  'theme.HIGH_CONTRAST': 'Hoher Kontrast',
+
+  'lobby.yourName': 'Dein Name',
+  'lobby.confirmMoves': 'Jeden Zug vor dem Senden bestätigen (Ziehen legt die Karte immer)',
+  'lobby.cardColours': 'Kartenfarben',
+  'lobby.language': 'Sprache',
+  'lobby.host': 'Spiel eröffnen',
+  'lobby.join': 'Spiel beitreten',
+  'lobby.totalPlayers': 'Anzahl Spieler',
+  'lobby.deal': 'Verteilen',
+  'lobby.dealSolvable': 'Nur Verteilungen, die gewonnen werden können.',
+  'lobby.dealHard': 'Nur Verteilungen, die gewonnen werden können, bevorzugt mit wenigen Lösungen.',
+  'lobby.lobbyCode': 'Lobby-Code',
+  'lobby.clickToCopy': 'Klicken zum Kopieren',
+  'lobby.inviteLink': 'Einladungslink',
+  'lobby.copy': 'Kopieren',
+  'lobby.members': 'In der Lobby:',
+  'lobby.thisDevice': '(dieses Gerät)',
+  'lobby.botsFill': 'Freie Plätze übernehmen Bots.',
+  'lobby.addHotseat': '+ Spieler an diesem Gerät (Hotseat)',
+  'lobby.standIn': 'Nach {seconds}s spielt ein Bot für getrennte Spieler',
+  'lobby.takeBacks': 'Rücknahmen erlauben (die anderen stimmen ab)',
+  'lobby.players': 'Spieler:',
+  'lobby.spectators': 'Zuschauer:',
+  'lobby.selectMission': 'Mission wählen:',
+  'lobby.continueCampaign': 'Kampagne fortsetzen: {clock}',
+  'lobby.campaignComplete': 'Kampagne abgeschlossen!',
+  'lobby.chapter': 'Kapitel {chapter}',
+  'lobby.locked': 'Schlagt die vorige Uhr, um diese freizuschalten',
+  'lobby.replayCode': 'Verteilungscode nachspielen',
+  'lobby.codeExample': 'z.B. C1-3.3.1Z4K9Q',
+  'lobby.play': 'Spielen',
+  'lobby.unknownCode': 'Unbekannter Verteilungscode.',
+  'lobby.pasteCode': 'Code hier einfügen',
+  'lobby.connect': 'VERBINDEN',
+  'lobby.watch': 'ZUSCHAUEN',
+  'lobby.watchTitle': 'Als Zuschauer beitreten',
+  'lobby.takeBotSeat': 'Bot-Platz übernehmen',
+  'lobby.lastMatch': 'Letztes Spiel ansehen',
+
+  'game.waiting': 'WARTEN...',
+  'game.yourTurn': 'DU BIST DRAN',
+  'game.theirTurn': '{name} ist dran',
+  'game.playFaceUp': 'Offen spielen',
+  'game.keys': 'Tasten: ←/→ Karte wählen · F offen · 1–6 legen · Esc abbrechen',
+  'game.placeOn': 'Auf Feld {slot} legen?',
+  'game.confirm': 'Bestätigen',
+  'game.cancel': 'Abbrechen',
+  'game.yourHand': 'Deine Hand',
+  'game.dealCode': 'Verteilungscode (klicken zum Kopieren)',
+  'game.move': 'Zug',
+  'game.takeBack': '↶ Zurücknehmen',
+  'game.takeBackTitle': 'Den Tisch bitten, deinen letzten Zug rückgängig zu machen',
+  'game.iStart': 'Ich beginne!',
+  'game.seatStarts': '{name} beginnt!',
+  'game.away': 'weg',
+  'game.standIn': 'Ein Bot spielt, bis der Spieler zurück ist',
+  'game.disconnected': 'Getrennt',
+  'game.faceUp': 'Offen',
+  'game.abort': 'Spiel abbrechen',
+  'game.abortConfirm': 'Laufendes Spiel abbrechen?',
+  'game.takeBackRequest': '{name} möchte den letzten Zug zurücknehmen.',
+  'game.accept': 'Annehmen',
+  'game.decline': 'Ablehnen',
+  'game.takeBackWaiting': 'Warte auf den Tisch ({accepted}/{voters} angenommen)...',
+  'game.solvable': 'Diese Verteilung war lösbar ({count} Lösungen).',
+  'game.solvableCapped': 'Diese Verteilung war lösbar ({count}+ Lösungen).',
+  'game.mustStart': '{name} muss beginnen.',
+  'game.showOurs': 'Unsere Uhr zeigen',
+  'game.showSolution': 'Eine Lösung zeigen',
+  'game.unwinnable': 'Keine Anordnung hätte diese Verteilung gewonnen.',
+  'game.watchReplay': 'Wiederholung ansehen',
+  'game.returnToLobby': 'Zurück zur Lobby',
+  'game.passDevice': 'Gib das Gerät an {name} weiter',
+  'game.showHand': 'Ich bin {name}: Hand zeigen',
+  'game.hotseatStart': 'Entscheidet, wer beginnt, und drückt oben den passenden „beginnt!“-Knopf.',
+  'game.waitingFor': 'Warte auf {name}...',
+  'game.spectating': 'Zuschauer: Die Hände bleiben verdeckt, bis die Uhr ausgewertet ist.',
+  'game.noSuccessor': 'Kein Spieler hier kann den Host übernehmen: Geht der Host, endet dieses Spiel.',
+  'game.noSuccessorHost': 'Kein verbundener Spieler kann den Host übernehmen: Gehst du, endet das Spiel für alle Zuschauer.',
+  'game.decideStart': 'Entscheidet, wer beginnt, und klickt dann oben auf „Ich beginne!“',
+
+  'announce.yourTurn': 'Du bist dran.',
+  'announce.seatTurn': '{name}, du bist dran.',
+  'announce.theirTurn': '{name} ist dran.',
+  'announce.selected': '{card} gewählt.',
+  'announce.faceUp': 'Offen.',
+  'announce.faceDown': 'Verdeckt.',
+
+  'clock.group': 'Uhr {name}',
+  'clock.slot': 'Feld {slot}',
+  'clock.empty': 'leer',
+  'clock.cards': p => `${p.count} ${p.count === 1 ? 'Karte' : 'Karten'}`,
+  'clock.showing': 'zeigt {cards}',
+  'clock.sum': 'Summe {sum}',
+  'clock.allowed': 'erlaubt für die gewählte Karte',
+  'clock.notAllowed': 'nicht erlaubt für die gewählte Karte',
+  'clock.holds': 'hält',
+  'clock.breaks': 'bricht: {reason}',
+
+  'replay.deal': '{clock} an {count} Spieler verteilt',
+  'replay.claimStart': '{name} beginnt',
+  'replay.play': '{name} legt {card} auf Feld {slot}',
+  'replay.playFaceUp': '{name} legt {card} offen auf Feld {slot} (Marker {used}/{limit})',
+  'replay.aCard': 'eine Karte',
+  'replay.hiddenCard': 'eine Karte ({type})',
+  'replay.holds': 'Feld {slot} hält',
+  'replay.breaks': 'Feld {slot} bricht: {reason}',
+  'replay.asksTakeBack': '{name} bittet um Rücknahme des Zugs',
+  'replay.takesBack': '{name} nimmt den Zug zurück',
+  'replay.acceptsTakeBack': '{name} nimmt die Rücknahme an',
+  'replay.declinesTakeBack': '{name} lehnt die Rücknahme ab',
+  'replay.takeBackDone': '{name} nimmt die Rücknahme an; die Karte geht zurück auf die Hand',
+  'replay.back': '{name} ist zurück',
+  'replay.standIn': 'Ein Bot spielt für {name}',
+  'replay.lostConnection': '{name} hat die Verbindung verloren',
+  'replay.log': 'Spielverlauf',
+  'replay.close': 'Schließen',
+  'replay.neverWinnable': 'Kein Spielverlauf hätte diese Verteilung gewonnen.',
+  'replay.brokeAt': 'Die Uhr brach bei Schritt {step}: {text}',
+};
+
+const CATALOGUES: Record<Locale, Partial<Record<MessageKey, Entry>>> = { en: EN, de: DE };
+
+// Built-in clocks in other languages; English is the definitions' own text.
+// Clocks loaded from elsewhere keep whatever text they came with.
+type ClockText = Pick<ClockDefinition, 'name' | 'description' | 'visualHints'>;
+
+const CLOCK_TEXT: Partial<Record<Locale, Record<string, ClockText>>> = {
+  de: {
+    'c1-1': { name: 'Uhr I', description: 'Feld 1: Genau 1 Mondkarte. Feld 6: Genau 3 Karten.', visualHints: { 0: 'Nur 1x ☾', 5: '3 Karten' } },
+    'c1-2': { name: 'Uhr II', description: 'Feld 3: Summe 8-12. Feld 4: Genau 3 Karten.', visualHints: { 2: 'Σ 8-12', 3: '3 Karten' } },
+    'c1-3': {
+      name: 'Uhr III',
+      description: '1. Karte -> Feld 3. 2. Karte -> Feld 2. Feld 6: Summe 20-30.',
+      visualHints: { 2: '1. Karte', 1: '2. Karte', 5: 'Σ 20-30' },
+    },
+    'c1-4': { name: 'Uhr IV', description: '6. Karte -> Feld 1. Feld 4: 1 Sonne, 1 Mond.', visualHints: { 0: '6. Karte', 3: '1☀ 1☾' } },
+    'c2-1': {
+      name: 'Uhr V',
+      description: 'Zeiger auf Feld 4. Feld 1: Nur gerade Karten. Feld 6: Genau 2 Karten.',
+      visualHints: { 0: 'Gerade', 5: '2 Karten' },
+    },
+    'c2-2': {
+      name: 'Uhr VI',
+      description: 'Feld 2: Gleiche Parität. Feld 4: Gleiche Summe wie Feld 3.',
+      visualHints: { 1: 'Gleiche Parität', 3: 'Σ = Feld 3' },
+    },
+    'c2-3': {
+      name: 'Uhr VII',
+      description: 'Keine offenen Karten. Feld 3: Nur ungerade Karten. Feld 6: Summe 25-40.',
+      visualHints: { 2: 'Ungerade', 5: 'Σ 25-40' },
+    },
+    'c2-4': {
+      name: 'Uhr VIII',
+      description: 'Zeiger auf Feld 3. Feld 1: Nur Sonnenkarten. Alle Feldsummen verschieden.',
+      visualHints: { 0: 'Nur ☀' },
+    },
+    'c3-1': {
+      name: 'Uhr IX',
+      description: 'Zeiger auf Feld 5. Keine offenen Karten. Feld 2: 2 ungerade Karten. Feldsummen höchstens 20 auseinander.',
+      visualHints: { 1: '2 Ungerade' },
+    },
+    'c3-2': {
+      name: 'Uhr X',
+      description: '1. Karte -> Feld 4. Feld 5: Gleiche Summe wie Feld 4. Feld 6: 3 Karten, gleiche Parität.',
+      visualHints: { 3: '1. Karte', 4: 'Σ = Feld 4', 5: '3 Gl. Parität' },
+    },
+  },
+};
+
+export const localizeClock = (clock: ClockDefinition, locale: Locale): ClockDefinition => {
+  const text = CLOCK_TEXT[locale]?.[clock.id];
+  return text ? { ...clock, ...text } : clock;
+};
+
+// --- Translation ---
+
+const interpolate = (template: string, params: MessageParams) =>
+  template.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match));
+
+export const createTranslator = (locale: Locale): Translate => {
+  const t: Translate = (key, params = {}) => {
+    const values: MessageParams = {};
+    Object.entries(params).forEach(([name, value]) => {
+      values[name] = typeof value === 'object' ? t(value.key, value.params) : value;
+    });
+    // Keys built from codes (e.g. an old save) may not exist; show the key rather than nothing
+    const entry = CATALOGUES[locale][key] ?? EN[key];
+    if (entry === undefined) return key;
+    return typeof entry === 'function' ? entry(values) : interpolate(entry, values);
+  };
+  return t;
+};
+
+export const formatPhrase = (t: Translate, { key, params }: Phrase) => t(key, params);
+
+// Whether a locale words a key itself rather than falling back to English
+export const hasMessage = (locale: Locale, key: string) => key in CATALOGUES[locale];
+
+export const rulePhrase = (result: Pick<ValidationResult, 'code' | 'params'>): Phrase =>
+  result.code ? { key: `rule.${result.code}`, params: result.params } : { key: 'rule.FAILED' };
+
+// Rule codes are more precise than the reason, so they win when both are set
+export const movePhrase = (check: Pick<MoveCheck, 'reason' | 'code' | 'params'>): Phrase =>
+  check.code ? rulePhrase(check) : { key: `move.${check.reason || 'PLACEMENT_RESTRICTED'}` };
+
+export const systemPhrase = (message: SystemMessage): Phrase =>
+  message.code === 'DEFEAT' && message.rule
+    ? { key: 'system.DEFEAT_RULE', params: { rule: rulePhrase(message.rule) } }
+    : { key: `system.${message.code}`, params: message.params };
+
+export interface I18n {
+  locale: Locale;
+  t: Translate;
+}
+
+export const I18nContext = createContext<I18n>({ locale: 'en', t: createTranslator('en') });
+
+export const useI18n = () => useContext(I18nContext);
+
+const STORAGE_KEY = 'tt_locale';
+
+// First visit: follow the browser
+export const loadLocale = (): Locale => {
+  const saved = localStorage.getItem(STORAGE_KEY) as Locale | null;
+  if (saved && saved in LOCALES) return saved;
+  return navigator.language.toLowerCase().startsWith('de') ? 'de' : 'en';
+};
+
+export const saveLocale = (locale: Locale) => localStorage.setItem(STORAGE_KEY, locale);
@@ -0,0 +1,85 @@
+import { ConnectionEnd, Emitter, Transport, createConnectionEnd, createEmitter } from './transport';
+
+// In-memory transport: every transport created on the same hub can reach the
+// others. Delivery is asynchronous and data is cloned, like a real network, so
+// several clients and a host can play a full game inside one process.
+
+interface LoopbackPeer {
+  events: Emitter;
+  ends: Set<ConnectionEnd>;
+}
+
+export interface LoopbackHub {
+  peers: Map<string, LoopbackPeer>;
+  nextId: number;
+}
+
+export const createLoopbackHub = (): LoopbackHub => ({ peers: new Map(), nextId: 1 });
+
+const defaultHub = createLoopbackHub();
+
+// Keeps delivery order: everything goes through the same timer queue
+const later = (fn: () => void) => { setTimeout(fn, 0); };
+
+export const createLoopbackTransport = (id: string | null, hub: LoopbackHub = defaultHub): Transport => {
+  const events = createEmitter();
+  const ends = new Set<ConnectionEnd>();
+  let myId: string | null = null;
+
+  later(() => {
+    const wanted = id || `loopback-${hub.nextId++}`;
+    if (hub.peers.has(wanted)) {
+      events.emit('error', { type: 'unavailable-id', message: `${wanted} is taken.` });
+      return;
+    }
+    myId = wanted;
+    hub.peers.set(wanted, { events, ends });
+    events.emit('open', wanted);
+  });
+
+  // Two ends wired to each other; closing either closes both
+  const link = (localEnds: Set<ConnectionEnd>, localId: string, remoteEnds: Set<ConnectionEnd>, remoteId: string) => {
+    let local: ConnectionEnd;
+    let remote: ConnectionEnd;
+    const close = () => later(() => {
+      localEnds.delete(local);
+      remoteEnds.delete(remote);
+      local.setOpen(false);
+      remote.setOpen(false);
+    });
+    local = createConnectionEnd(remoteId, data => {
+      const copy = structuredClone(data);
+      later(() => { if (remote.connection.open) remote.events.emit('data', copy); });
+    }, close);
+    remote = createConnectionEnd(localId, data => {
+      const copy = structuredClone(data);
+      later(() => { if (local.connection.open) local.events.emit('data', copy); });
+    }, close);
+    localEnds.add(local);
+    remoteEnds.add(remote);
+    return { local, remote };
+  };
+
+  return {
+    on: events.on,
+    connect: (remoteId: string) => {
+      const target = hub.peers.get(remoteId);
+      if (!myId || !target) {
+        const dangling = createConnectionEnd(remoteId, () => {}, () => {});
+        later(() => dangling.events.emit('error', { type: 'peer-unavailable', message: `Could not reach ${remoteId}.` }));
+        return dangling.connection;
+      }
+      const { local, remote } = link(ends, myId, target.ends, remoteId);
+      later(() => {
+        target.events.emit('connection', remote.connection);
+        remote.setOpen(true);
+        local.setOpen(true);
+      });
+      return local.connection;
+    },
+    destroy: () => {
+      if (myId && hub.peers.get(myId)?.events === events) hub.peers.delete(myId);
+      ends.forEach(end => end.connection.close());
+    },
+  };
+};
@@ -0,0 +1,47 @@
+import { Transport } from './transport';
+import { createPeerTransport } from './peerTransport';
+import { createRelayTransport } from './relayTransport';
+import { createLoopbackTransport } from './loopbackTransport';
+
+// Chooses the transport for this page. Invite links carry the choice along so
+// everyone at the table ends up on the same network.
+
+export type TransportKind = 'peerjs' | 'relay' | 'loopback';
+
+export interface TransportConfig {
+  kind: TransportKind;
+  relayUrl?: string; // Only for 'relay'
+}
+
+export const DEFAULT_RELAY_PORT = 8787;
+
+// `?transport=relay&relay=ws://host:port` picks the relay; PeerJS otherwise
+export const getTransportConfig = (search: string, hostname: string): TransportConfig => {
+  const params = new URLSearchParams(search);
+  const kind = params.get('transport');
+  if (kind === 'relay') {
+    return { kind, relayUrl: params.get('relay') || `ws://${hostname}:${DEFAULT_RELAY_PORT}` };
+  }
+  if (kind === 'loopback') return { kind };
+  return { kind: 'peerjs' };
+};
+
+// Query string that makes an invite link use the same transport as its host
+export const getTransportQuery = (config: TransportConfig) => {
+  if (config.kind === 'peerjs') return '';
+  const params = new URLSearchParams({ transport: config.kind });
+  if (config.relayUrl) params.set('relay', config.relayUrl);
+  return `&${params.toString()}`;
+};
+
+// `id` is the preferred id; null lets the transport pick one
+export const createTransport = (config: TransportConfig, id: string | null): Transport => {
+  switch (config.kind) {
+    case 'relay':
+      return createRelayTransport(config.relayUrl!, id);
+    case 'loopback':
+      return createLoopbackTransport(id);
+    default:
+      return createPeerTransport(id);
+  }
+};
@@ -0,0 +1,21 @@
+import type { Transport, TransportConnection } from './transport';
+
+// PeerJS is loaded as a global from the CDN script in index.html
+declare const Peer: any;
+
+export const isPeerJsAvailable = () => typeof Peer !== 'undefined';
+
+// PeerJS peers and data connections already have the Transport shape; only errors are normalised
+export const createPeerTransport = (id: string | null): Transport => {
+  if (!isPeerJsAvailable()) throw new Error('PeerJS is not loaded.');
+  const peer = new Peer(id, { debug: 1 });
+
+  return {
+    on: (event: string, handler: (...args: any[]) => void) => {
+      if (event === 'error') peer.on('error', (err: any) => handler({ type: err.type || 'network', message: err.message }));
+      else peer.on(event, handler);
+    },
+    connect: (remoteId: string) => peer.connect(remoteId) as TransportConnection,
+    destroy: () => peer.destroy(),
+  };
+};
@@ -0,0 +1,107 @@
+import { Card, ClockSegment, GameAction, GamePhase, GameState } from '../types';
+import { TOTAL_SEGMENTS } from '../constants';
+import { createLobbyState, reduce } from './gameEngine';
+
+// What each seat is allowed to see. The host keeps the full state and sends
+// every recipient its own projection: its own hand, the type of everyone
+// else's cards, and clock values only once they are face up or resolved.
+// Hidden cards get placeholder ids too, since real ids ("s-7") name the value.
+
+// null = spectator: no private hand at all
+export type ViewerId = string | null;
+
+const maskCard = (card: Card, id: string): Card => ({ id, type: card.type, value: 0, isFaceUp: false, ownerId: card.ownerId });
+
+export const isHiddenCard = (card: Card) => card.id.startsWith('hidden-');
+
+const isSlotRevealed = (state: GameState, segIdx: number) => {
+  if (state.phase !== GamePhase.RESOLUTION) return false;
+  const order = (segIdx - state.clock.startingSegmentIndex + TOTAL_SEGMENTS) % TOTAL_SEGMENTS;
+  return order <= state.resolutionStep;
+};
+
+export const projectState = (state: GameState, viewerId: ViewerId): GameState => ({
+  ...state,
+  // The seed recreates the whole deal, so it stays secret until the match is over
+  seed: state.outcome ? state.seed : 0,
+  players: state.players.map(p => (p.id === viewerId
+    ? p
+    : { ...p, hand: p.hand.map((card, i) => maskCard(card, `hidden-${p.id}-${i}`)) })),
+  clockSegments: state.clockSegments.map((seg): ClockSegment => {
+    if (isSlotRevealed(state, seg.index)) return seg;
+    return {
+      ...seg,
+      cards: seg.cards.map((card, i) =>
+        card.isFaceUp || (viewerId !== null && card.ownerId === viewerId) ? card : maskCard(card, `hidden-slot-${seg.index}-${i}`)
+      ),
+    };
+  }),
+});
+
+// Top-level fields of `next` that differ from `prev`
+export const diffState = (prev: GameState, next: GameState): Partial<GameState> => {
+  const changes: Partial<GameState> = {};
+  const assign = <K extends keyof GameState>(key: K) => { changes[key] = next[key]; };
+  (Object.keys(next) as (keyof GameState)[]).forEach(key => {
+    if (JSON.stringify(prev[key]) !== JSON.stringify(next[key])) assign(key);
+  });
+  return changes;
+};
+
+// --- Public action log ---
+// Actions with everything secret stripped: no seed on Deal, and PlayCard names
+// the card by its position in the player's hand (hands are in shuffled order,
+// so a position says nothing about the value). Together with the seed the log
+// rebuilds the full state, which is how a new host recovers after migration.
+
+type DealAction = Extract<GameAction, { type: 'Deal' }>;
+type PlayCardAction = Extract<GameAction, { type: 'PlayCard' }>;
+
+export type PublicAction =
+  | Exclude<GameAction, { type: 'Deal' | 'PlayCard' }>
+  | Omit<DealAction, 'seed'>
+  | (Omit<PlayCardAction, 'cardId'> & { handIndex: number });
+
+// One line of the log: a public action and when the host applied it
+export interface LogEntry {
+  at: number; // ms since the epoch, host clock
+  action: PublicAction;
+}
+
+// `state` is the full state the action is about to be applied to
+export const toPublicAction = (state: GameState, action: GameAction): PublicAction => {
+  if (action.type === 'Deal') {
+    const { seed, ...rest } = action;
+    return rest;
+  }
+  if (action.type === 'PlayCard') {
+    const { cardId, ...rest } = action;
+    const hand = state.players.find(p => p.id === action.playerId)?.hand || [];
+    return { ...rest, handIndex: hand.findIndex(c => c.id === cardId) };
+  }
+  return action;
+};
+
+const fromPublicAction = (state: GameState, action: PublicAction, seed: number): GameAction => {
+  if (action.type === 'Deal') return { ...(action as Omit<DealAction, 'seed'>), seed };
+  if (action.type === 'PlayCard') {
+    const { handIndex, ...rest } = action as Omit<PlayCardAction, 'cardId'> & { handIndex: number };
+    const hand = state.players.find(p => p.id === rest.playerId)?.hand || [];
+    return { ...rest, cardId: hand[handIndex]?.id || '' };
+  }
+  return action as GameAction;
+};
+
+// The state after each entry of the log, in order
+export const rebuildStates = (seed: number, log: LogEntry[]): GameState[] => {
+  const states: GameState[] = [];
+  log.reduce((state, { action }) => {
+    const next = reduce(state, fromPublicAction(state, action, seed));
+    states.push(next);
+    return next;
+  }, createLobbyState());
+  return states;
+};
+
+export const rebuildState = (seed: number, log: LogEntry[]): GameState =>
+  log.reduce((state, { action }) => reduce(state, fromPublicAction(state, action, seed)), createLobbyState());
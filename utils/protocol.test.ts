@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { RosterMember, checkSequence, electHost } from './protocol';
+
+// Host and clients over the wire are covered in sync.test.ts
+
+describe('checkSequence', () => {
+  it('applies the next action, skips old ones and flags gaps', () => {
+    expect(checkSequence(4, 5)).toBe('APPLY');
+    expect(checkSequence(4, 4)).toBe('STALE');
+    expect(checkSequence(4, 2)).toBe('STALE');
+    expect(checkSequence(4, 7)).toBe('GAP');
+  });
+});
+
+describe('electHost', () => {
+  const member = (playerId: string, role: RosterMember['role'] = 'PLAYER'): RosterMember =>
+    ({ playerId, peerId: `peer-${playerId}`, name: playerId, role });
+
+  it('picks the lowest player id, whatever order the roster is in', () => {
+    const roster = [member('user-c'), member('user-a'), member('user-b')];
+    expect(electHost(roster)?.playerId).toBe('user-a');
+    expect(electHost([...roster].reverse())?.playerId).toBe('user-a');
+  });
+
+  it('never picks a spectator', () => {
+    expect(electHost([member('user-a', 'SPECTATOR'), member('user-b')])?.playerId).toBe('user-b');
+    expect(electHost([member('user-a', 'SPECTATOR')])).toBeNull();
+    expect(electHost([])).toBeNull();
+  });
+});
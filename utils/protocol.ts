@@ -0,0 +1,254 @@
+import { GamePhase, GameState, MessageParams, MoveRejectionReason, RuleCode } from '../types';
+import { isSupportedPlayerCount } from '../constants';
+import { getClockSchemaErrors } from './clockRules';
+import { isInt, isObject, isString } from './guards';
+import type { LogEntry } from './projection';
+import type { SeedShare } from './escrow';
+import { createLobbyState } from './gameEngine';
+import { MAX_SHUFFLES } from './dealing';
+import type { TransportConnection } from './transport';
+
+// Wire protocol between host and clients. Every message carries the protocol
+// version; bump it whenever a message changes shape so a stale cached build
+// at the table gets a clear error instead of half-working.
+
+export const PROTOCOL_VERSION = 12;
+
+// Spectators see the table like a player without a hand; they can take a bot seat between games
+export type SeatRole = 'PLAYER' | 'SPECTATOR';
+
+// Client -> host. The sender's identity is bound on JOIN, so later messages carry no player id.
+export type ClientMessage =
+  | { type: 'JOIN'; playerId: string; name: string; role?: SeatRole; escrow?: SeedShare } // escrow: rejoining a migrated host
+  | { type: 'TAKE_SEAT' } // Spectator asks for a bot seat in the next game
+  | { type: 'MOVE'; cardId: string; segmentIndex: number; faceUp: boolean }
+  | { type: 'CLAIM_START' }
+  | { type: 'TAKE_BACK' } // Ask for this client's last play back
+  | { type: 'TAKE_BACK_VOTE'; accept: boolean }
+  | { type: 'RESYNC' }; // Sent after a gap in the action stream; answered with a SNAPSHOT
+
+// A client currently connected to the host, and where the others can reach it
+export interface RosterMember {
+  playerId: string;
+  peerId: string; // Transport id
+  name: string;
+  role: SeatRole;
+}
+
+// Clients word errors by code; `message` is the detail for the console
+export type ProtocolErrorCode = 'INCOMPATIBLE_VERSION' | 'MALFORMED_MESSAGE' | 'NO_FREE_SEAT' | 'SEATS_LOCKED' | 'RECOVERY_FAILED';
+
+// Host -> client. Every engine action the host applies goes out as a PATCH with
+// the next sequence number: the changed top-level fields of the recipient's
+// projected state, plus the entry for the shared log (the action in its public
+// form, with the host's timestamp). A SNAPSHOT carries the whole projection,
+// the log and the sequence number. Rejections carry codes, not text, so each
+// client can put them in its own language.
+export type HostMessage =
+  | { type: 'PATCH'; seq: number; entry: LogEntry; changes: Partial<GameState> }
+  | { type: 'SNAPSHOT'; seq: number; state: GameState; log: LogEntry[] }
+  | { type: 'ESCROW'; share: SeedShare } // This client's share of the deal seed
+  | { type: 'MOVE_REJECTED'; cardId: string; reason: MoveRejectionReason; code?: RuleCode; params?: MessageParams }
+  | { type: 'ERROR'; code: ProtocolErrorCode; message: string }
+  | { type: 'ROSTER'; members: RosterMember[] }; // Re-sent whenever a client joins or leaves
+
+export interface ProtocolError {
+  code: ProtocolErrorCode;
+  message: string;
+}
+
+// Either a well-formed message or the reason it was refused
+export interface DecodeResult<M> {
+  message?: M;
+  error?: ProtocolError;
+}
+
+export const encodeMessage = (message: ClientMessage | HostMessage) => ({ ...message, v: PROTOCOL_VERSION });
+
+// The only place that writes to a connection, so nothing unversioned goes out
+export const sendMessage = (connection: TransportConnection, message: ClientMessage | HostMessage) => {
+  connection.send(encodeMessage(message));
+};
+
+const isSeedShare = (v: unknown): v is SeedShare =>
+  isObject(v) && isString(v.matchId) && isString(v.setId) && isInt(v.index) && isInt(v.count) && isInt(v.threshold) && isInt(v.share);
+
+const isSeatRole = (v: unknown): v is SeatRole => v === 'PLAYER' || v === 'SPECTATOR';
+
+const malformed = (message: string): DecodeResult<never> => ({ error: { code: 'MALFORMED_MESSAGE', message } });
+
+// Builds before versioning sent no `v` at all; treat them as version 0
+const checkVersion = (raw: Record<string, any>, peerLabel: string): ProtocolError | null => {
+  const version = isInt(raw.v) ? raw.v : 0;
+  if (version === PROTOCOL_VERSION) return null;
+  const stale = version < PROTOCOL_VERSION ? `The ${peerLabel}` : 'This device';
+  return {
+    code: 'INCOMPATIBLE_VERSION',
+    message: `Version mismatch (protocol v${version} vs v${PROTOCOL_VERSION}). ${stale} is running an old build; reload the page.`,
+  };
+};
+
+// Shallow shape check; enough to stop a foreign or corrupted state from reaching the UI
+const getGameStateErrors = (state: unknown): string[] => {
+  if (!isObject(state)) return ['state must be an object.'];
+  const errors: string[] = [];
+  if (!Object.values(GamePhase).includes(state.phase)) errors.push('state.phase is not a game phase.');
+  if (!isString(state.matchId)) errors.push('state.matchId must be a string.');
+  if (!Array.isArray(state.players) || !state.players.every(p => isObject(p) && isString(p.id) && Array.isArray(p.hand))) {
+    errors.push('state.players must be a list of players.');
+  }
+  if (!Array.isArray(state.clockSegments) || !state.clockSegments.every(s => isObject(s) && isInt(s.index) && Array.isArray(s.cards))) {
+    errors.push('state.clockSegments must be a list of slots.');
+  }
+  if (!Array.isArray(state.resolutionResults)) errors.push('state.resolutionResults must be a list.');
+  ['seed', 'currentPlayerIndex', 'faceUpTokensUsed', 'cardsPlayedCount', 'resolutionStep'].forEach(key => {
+    if (!isInt(state[key])) errors.push(`state.${key} must be an integer.`);
+  });
+  errors.push(...getClockSchemaErrors(state.clock).map(e => `state.clock: ${e}`));
+  return errors;
+};
+
+const GAME_STATE_KEYS = Object.keys(createLobbyState());
+
+const getActionErrors = (action: unknown): string[] => {
+  if (!isObject(action)) return ['action must be an object.'];
+  switch (action.type) {
+    case 'Deal': {
+      const errors: string[] = [];
+      if (!isString(action.matchId)) errors.push('Deal needs a matchId.');
+      if (!isString(action.dealMode)) errors.push('Deal needs a dealMode.');
+      if (action.allowTakeBacks !== undefined && typeof action.allowTakeBacks !== 'boolean') errors.push('Deal allowTakeBacks must be a boolean.');
+      if (action.shuffle !== undefined && !(isInt(action.shuffle) && action.shuffle >= 1 && action.shuffle <= MAX_SHUFFLES)) {
+        errors.push(`Deal shuffle must be between 1 and ${MAX_SHUFFLES}.`);
+      }
+      if (!Array.isArray(action.seats) || !action.seats.every(s => isObject(s) && isString(s.id) && isString(s.name))) {
+        errors.push('Deal needs a list of seats.');
+      } else if (!isSupportedPlayerCount(action.seats.length)) {
+        errors.push(`Deal cannot seat ${action.seats.length} players.`);
+      }
+      errors.push(...getClockSchemaErrors(action.clock).map(e => `Deal clock: ${e}`));
+      return errors;
+    }
+    case 'ClaimStart':
+      return isString(action.playerId) ? [] : ['ClaimStart needs a playerId.'];
+    case 'PlayCard':
+      return isString(action.playerId) && isInt(action.handIndex) && isInt(action.segmentIndex) && typeof action.faceUp === 'boolean'
+        ? []
+        : ['PlayCard needs playerId, handIndex, segmentIndex and faceUp.'];
+    case 'RequestTakeBack':
+      return isString(action.playerId) ? [] : ['RequestTakeBack needs a playerId.'];
+    case 'VoteTakeBack':
+      return isString(action.playerId) && typeof action.accept === 'boolean' ? [] : ['VoteTakeBack needs playerId and accept.'];
+    case 'SetPresence':
+      return isString(action.playerId) && typeof action.away === 'boolean' ? [] : ['SetPresence needs playerId and away.'];
+    case 'ResolveStep':
+    case 'ClearMessage':
+    case 'Reset':
+      return [];
+    default:
+      return [`Unknown action type "${action.type}".`];
+  }
+};
+
+const getLogEntryErrors = (entry: unknown): string[] => {
+  if (!isObject(entry)) return ['log entry must be an object.'];
+  return [...(isInt(entry.at) ? [] : ['log entry needs an integer timestamp.']), ...getActionErrors(entry.action)];
+};
+
+export const decodeClientMessage = (raw: unknown): DecodeResult<ClientMessage> => {
+  if (!isObject(raw)) return malformed('Message must be an object.');
+  const versionError = checkVersion(raw, 'player');
+  if (versionError) return { error: versionError };
+
+  switch (raw.type) {
+    case 'JOIN':
+      if (!isString(raw.playerId) || !raw.playerId) return malformed('JOIN needs a playerId.');
+      if (!isString(raw.name)) return malformed('JOIN needs a name.');
+      if (raw.role !== undefined && !isSeatRole(raw.role)) return malformed('JOIN role must be PLAYER or SPECTATOR.');
+      if (raw.escrow !== undefined && !isSeedShare(raw.escrow)) return malformed('JOIN escrow is not a seed share.');
+      return { message: { type: 'JOIN', playerId: raw.playerId, name: raw.name, role: raw.role, escrow: raw.escrow } };
+    case 'TAKE_SEAT':
+      return { message: { type: 'TAKE_SEAT' } };
+    case 'MOVE':
+      if (!isString(raw.cardId)) return malformed('MOVE needs a cardId.');
+      if (!isInt(raw.segmentIndex)) return malformed('MOVE needs an integer segmentIndex.');
+      if (typeof raw.faceUp !== 'boolean') return malformed('MOVE needs a boolean faceUp.');
+      return { message: { type: 'MOVE', cardId: raw.cardId, segmentIndex: raw.segmentIndex, faceUp: raw.faceUp } };
+    case 'CLAIM_START':
+      return { message: { type: 'CLAIM_START' } };
+    case 'RESYNC':
+      return { message: { type: 'RESYNC' } };
+    case 'TAKE_BACK':
+      return { message: { type: 'TAKE_BACK' } };
+    case 'TAKE_BACK_VOTE':
+      if (typeof raw.accept !== 'boolean') return malformed('TAKE_BACK_VOTE needs accept.');
+      return { message: { type: 'TAKE_BACK_VOTE', accept: raw.accept } };
+    default:
+      return malformed(`Unknown message type "${raw.type}".`);
+  }
+};
+
+export const decodeHostMessage = (raw: unknown): DecodeResult<HostMessage> => {
+  if (!isObject(raw)) return malformed('Message must be an object.');
+  const versionError = checkVersion(raw, 'host');
+  if (versionError) return { error: versionError };
+
+  switch (raw.type) {
+    case 'PATCH': {
+      if (!isInt(raw.seq)) return malformed('PATCH needs an integer seq.');
+      const errors = getLogEntryErrors(raw.entry);
+      if (errors.length > 0) return malformed(`Invalid log entry: ${errors.join(' ')}`);
+      if (!isObject(raw.changes)) return malformed('PATCH needs a changes object.');
+      const unknown = Object.keys(raw.changes).filter(k => !GAME_STATE_KEYS.includes(k));
+      if (unknown.length > 0) return malformed(`PATCH changes unknown fields: ${unknown.join(', ')}.`);
+      return { message: { type: 'PATCH', seq: raw.seq, entry: raw.entry as LogEntry, changes: raw.changes as Partial<GameState> } };
+    }
+    case 'SNAPSHOT': {
+      if (!isInt(raw.seq)) return malformed('SNAPSHOT needs an integer seq.');
+      const errors = getGameStateErrors(raw.state);
+      if (!Array.isArray(raw.log)) errors.push('log must be a list.');
+      else raw.log.forEach((entry, i) => errors.push(...getLogEntryErrors(entry).map(e => `log[${i}]: ${e}`)));
+      if (errors.length > 0) return malformed(`Invalid state: ${errors.join(' ')}`);
+      return { message: { type: 'SNAPSHOT', seq: raw.seq, state: raw.state as GameState, log: raw.log as LogEntry[] } };
+    }
+    case 'ESCROW':
+      if (!isSeedShare(raw.share)) return malformed('ESCROW needs a seed share.');
+      return { message: { type: 'ESCROW', share: raw.share } };
+    case 'MOVE_REJECTED':
+      if (!isString(raw.cardId) || !isString(raw.reason)) return malformed('MOVE_REJECTED needs cardId and reason.');
+      if (raw.code !== undefined && (!isString(raw.code) || !isObject(raw.params))) return malformed('MOVE_REJECTED code needs params.');
+      return {
+        message: {
+          type: 'MOVE_REJECTED', cardId: raw.cardId, reason: raw.reason as MoveRejectionReason,
+          ...(raw.code !== undefined && { code: raw.code as RuleCode, params: raw.params as MessageParams }),
+        },
+      };
+    case 'ERROR':
+      if (!isString(raw.code) || !isString(raw.message)) return malformed('ERROR needs a code and a message.');
+      return { message: { type: 'ERROR', code: raw.code as ProtocolErrorCode, message: raw.message } };
+    case 'ROSTER':
+      if (!Array.isArray(raw.members) || !raw.members.every(m => isObject(m) && isString(m.playerId) && isString(m.peerId) && isString(m.name) && isSeatRole(m.role))) {
+        return malformed('ROSTER needs a list of members.');
+      }
+      return { message: { type: 'ROSTER', members: raw.members.map(m => ({ playerId: m.playerId, peerId: m.peerId, name: m.name, role: m.role })) } };
+    default:
+      return malformed(`Unknown message type "${raw.type}".`);
+  }
+};
+
+export type SequenceCheck = 'APPLY' | 'STALE' | 'GAP';
+
+// Where an incoming ACTION sits relative to the last one applied
+export const checkSequence = (lastSeq: number, seq: number): SequenceCheck => {
+  if (seq <= lastSeq) return 'STALE';
+  return seq === lastSeq + 1 ? 'APPLY' : 'GAP';
+};
+
+// Host migration: when the host drops, every client runs this on the same
+// roster and so agrees on the successor without talking to each other.
+// Spectators never hold a share of the seed, so only players are eligible;
+// callers pass only members seated in the match, since only they hold one.
+export const electHost = (members: RosterMember[]): RosterMember | null =>
+  members
+    .filter(m => m.role === 'PLAYER')
+    .reduce<RosterMember | null>((best, m) => (!best || m.playerId < best.playerId ? m : best), null);
@@ -0,0 +1,24 @@
+// Small seedable PRNG (mulberry32) so deals and bot choices can be replayed.
+
+export type Rng = () => number;
+
+export const createRng = (seed: number): Rng => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const randomSeed = () => Math.floor(Math.random() * 0x100000000) >>> 0;
+
+// Independent stream for a sub-task (e.g. the bot's nth move) of a seeded match
+export const deriveSeed = (seed: number, salt: number) => {
+  let h = (seed ^ Math.imul(salt + 1, 0x9E3779B1)) >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85EBCA6B);
+  h = Math.imul(h ^ (h >>> 13), 0xC2B2AE35);
+  return (h ^ (h >>> 16)) >>> 0;
+};
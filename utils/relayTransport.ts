@@ -0,0 +1,134 @@
+import { ConnectionEnd, Transport, createConnectionEnd, createEmitter } from './transport';
+import { isObject, isString } from './guards';
+
+// Transport over the WebSocket relay in server/relay.mjs, for networks that
+// block WebRTC. The relay only forwards frames between registered ids; see the
+// server for the frame format.
+
+// What the relay sends us
+type RelayFrame =
+  | { op: 'registered'; id: string }
+  | { op: 'connection'; connId: string; from: string }
+  | { op: 'open'; connId: string }
+  | { op: 'data'; connId: string; data: unknown }
+  | { op: 'close'; connId: string }
+  | { op: 'error'; type: string; message?: string; connId?: string };
+
+// Checks a parsed frame like the protocol checks messages; null for anything the relay would not send
+const decodeFrame = (raw: unknown): RelayFrame | null => {
+  if (!isObject(raw)) return null;
+  switch (raw.op) {
+    case 'registered':
+      return isString(raw.id) ? { op: raw.op, id: raw.id } : null;
+    case 'connection':
+      return isString(raw.connId) && isString(raw.from) ? { op: raw.op, connId: raw.connId, from: raw.from } : null;
+    case 'open':
+    case 'close':
+      return isString(raw.connId) ? { op: raw.op, connId: raw.connId } : null;
+    case 'data':
+      return isString(raw.connId) ? { op: raw.op, connId: raw.connId, data: raw.data } : null;
+    case 'error':
+      if (!isString(raw.type) || (raw.connId !== undefined && !isString(raw.connId))) return null;
+      return { op: raw.op, type: raw.type, message: isString(raw.message) ? raw.message : undefined, connId: raw.connId };
+    default:
+      return null;
+  }
+};
+
+export const createRelayTransport = (url: string, id: string | null): Transport => {
+  const events = createEmitter();
+  const ends = new Map<string, ConnectionEnd>(); // By connection id
+  let myId: string | null = null;
+  let nextConn = 1;
+  let destroyed = false;
+
+  const socket = new WebSocket(url);
+  const frame = (payload: object) => {
+    if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(payload));
+  };
+
+  const addEnd = (connId: string, remoteId: string) => {
+    const end = createConnectionEnd(
+      remoteId,
+      data => frame({ op: 'data', connId, data }),
+      () => {
+        frame({ op: 'close', connId });
+        ends.delete(connId);
+        end.setOpen(false);
+      }
+    );
+    ends.set(connId, end);
+    return end;
+  };
+
+  socket.onopen = () => frame({ op: 'register', id });
+
+  socket.onmessage = (event: MessageEvent) => {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(event.data);
+    } catch (e) {
+      console.warn("Relay sent a non-JSON frame", e);
+      return;
+    }
+    const msg = decodeFrame(parsed);
+    if (!msg) {
+      console.warn("Relay sent an unknown frame", parsed);
+      return;
+    }
+    const end = msg.op !== 'registered' && msg.connId ? ends.get(msg.connId) : undefined;
+
+    switch (msg.op) {
+      case 'registered':
+        myId = msg.id;
+        events.emit('open', msg.id);
+        break;
+      case 'connection': {
+        const incoming = addEnd(msg.connId, msg.from);
+        events.emit('connection', incoming.connection);
+        incoming.setOpen(true);
+        break;
+      }
+      case 'open':
+        end?.setOpen(true);
+        break;
+      case 'data':
+        end?.events.emit('data', msg.data);
+        break;
+      case 'close':
+        ends.delete(msg.connId);
+        end?.setOpen(false);
+        break;
+      case 'error':
+        if (end) {
+          end.events.emit('error', { type: msg.type, message: msg.message });
+          ends.delete(msg.connId);
+        } else {
+          events.emit('error', { type: msg.type, message: msg.message });
+        }
+        break;
+    }
+  };
+
+  socket.onerror = () => events.emit('error', { type: 'network', message: `Cannot reach relay at ${url}.` });
+
+  socket.onclose = () => {
+    ends.forEach(end => end.setOpen(false));
+    ends.clear();
+    if (!destroyed) events.emit('error', { type: 'disconnected', message: 'Lost connection to the relay.' });
+  };
+
+  return {
+    on: events.on,
+    connect: (remoteId: string) => {
+      const connId = `${myId}:${nextConn++}`;
+      const end = addEnd(connId, remoteId);
+      frame({ op: 'connect', connId, to: remoteId });
+      return end.connection;
+    },
+    destroy: () => {
+      destroyed = true;
+      socket.close();
+    },
+  };
+};
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { Card, CardType, GamePhase, Seat } from '../types';
+import { getClockDefinition, sumCards } from '../constants';
+import { pickDeal, seededDecks } from './dealing';
+import { isResolutionComplete } from './gameEngine';
+import type { LogEntry } from './projection';
+import { solveDeal } from './solver';
+import { createMatchSync } from './sync';
+import { buildReplay, findBreakingStep } from './replay';
+
+const SEATS: Seat[] = ['p1', 'p2', 'p3'].map(id => ({ id, name: id, isLocal: false }));
+// Clock II: slot 3 must sum to 8-12, and nothing ever leaves a slot but a take-back
+const CLOCK = getClockDefinition('c1-2');
+const SEED = 11;
+
+// A host with nobody connected, just to keep the public log the way a real match does
+const startMatch = () => {
+  const host = createMatchSync({ connections: () => ({}), onState: () => {} });
+  const pick = pickDeal(CLOCK, SEATS.length, 'SOLVABLE', seededDecks(SEED));
+  host.dispatch({ type: 'Deal', matchId: 'm1', clock: CLOCK, seats: SEATS, seed: SEED, dealMode: 'SOLVABLE', shuffle: pick.shuffle, allowTakeBacks: true });
+  const solution = solveDeal(host.state.players.map(p => p.hand), CLOCK, { maxSolutions: 1 });
+  const slotOf = new Map(solution.example!.flatMap(seg => seg.cards.map(card => [card.id, seg.index] as [string, number])));
+  host.dispatch({ type: 'ClaimStart', playerId: SEATS[solution.startPlayerIndex!].id });
+  host.dispatch({ type: 'ClearMessage' });
+  return { host, slotOf };
+};
+
+// Follows the solution until the player to move holds a card that overfills slot 3, then plays it there
+const playUntilBreak = (host: ReturnType<typeof startMatch>['host'], slotOf: Map<string, number>) => {
+  for (;;) {
+    const player = host.state.players[host.state.currentPlayerIndex];
+    const slot3 = sumCards(host.state.clockSegments[2].cards);
+    const breaker = player.hand.find(c => slot3 + c.value > 12);
+    const card = breaker || player.hand[0];
+    host.dispatch({ type: 'PlayCard', playerId: player.id, cardId: card.id, segmentIndex: breaker ? 2 : slotOf.get(card.id)!, faceUp: false });
+    if (breaker) return player.id;
+  }
+};
+
+const lastStep = (seed: number, log: LogEntry[]) => buildReplay(seed, log).length - 1;
+
+describe('findBreakingStep', () => {
+  it('points at the play that made a winnable clock unwinnable', () => {
+    const { host, slotOf } = startMatch();
+    playUntilBreak(host, slotOf);
+    const breaking = lastStep(SEED, host.log);
+    // ClearMessage is not a step, so the index counts Deal and ClaimStart only
+    expect(breaking).toBeGreaterThanOrEqual(2);
+
+    // Playing on and resolving the clock after the break changes nothing
+    while (host.state.phase === GamePhase.PLACEMENT) {
+      const player = host.state.players[host.state.currentPlayerIndex];
+      host.dispatch({ type: 'PlayCard', playerId: player.id, cardId: player.hand[0].id, segmentIndex: 0, faceUp: false });
+    }
+    while (!isResolutionComplete(host.state)) host.dispatch({ type: 'ResolveStep' });
+    expect(host.state.outcome).toBe('DEFEAT');
+    expect(findBreakingStep(buildReplay(SEED, host.log))).toBe(breaking);
+  });
+
+  it('takes the last break when a take-back repaired the first', () => {
+    const { host, slotOf } = startMatch();
+    const breakerId = playUntilBreak(host, slotOf);
+    const first = lastStep(SEED, host.log);
+
+    host.dispatch({ type: 'RequestTakeBack', playerId: breakerId });
+    SEATS.filter(s => s.id !== breakerId).forEach(s => host.dispatch({ type: 'VoteTakeBack', playerId: s.id, accept: true }));
+    expect(sumCards(host.state.clockSegments[2].cards)).toBeLessThanOrEqual(12);
+
+    playUntilBreak(host, slotOf);
+    const second = lastStep(SEED, host.log);
+    expect(second).toBe(first + 4);
+    expect(findBreakingStep(buildReplay(SEED, host.log))).toBe(second);
+  });
+
+  it('blames the deal when it was never winnable', () => {
+    // Clock I needs a Lunar card in slot 1; with only Solar ones nothing could win
+    const solar = (i: number): Card => ({ id: `s-${i}`, type: CardType.SOLAR, value: i, isFaceUp: false });
+    const log: LogEntry[] = [{ at: 0, action: { type: 'Deal', matchId: 'm1', clock: getClockDefinition('c1-1'), seats: SEATS, dealMode: 'RANDOM' } }];
+    const [deal] = buildReplay(1, log);
+    const hopeless = { ...deal, state: { ...deal.state, players: deal.state.players.map((p, i) => ({ ...p, hand: [1, 2, 3, 4].map(v => solar(i * 4 + v)) })) } };
+    expect(findBreakingStep([hopeless])).toBe(0);
+  });
+
+  it('finds no break in a match that could still be won', () => {
+    const { host } = startMatch();
+    expect(findBreakingStep(buildReplay(SEED, host.log))).toBe(-1);
+  });
+});
@@ -0,0 +1,120 @@
+import { Card, CardType, GamePhase, GameState } from '../types';
+import { getFaceUpLimit } from './gameEngine';
+import { LogEntry, isHiddenCard, rebuildStates } from './projection';
+import { solvePosition } from './solver';
+import { I18n, Phrase, localizeClock, rulePhrase } from './i18n';
+
+// Match replay. Once a match is over the seed is public, and the seed plus the
+// public log rebuilds every state the table went through: each step below is
+// one logged event with the full state right after it.
+
+export interface ReplayStep {
+  entry: LogEntry;
+  state: GameState;
+}
+
+export interface SavedReplay {
+  seed: number;
+  log: LogEntry[];
+}
+
+const STORAGE_KEY = 'tt_lastReplay';
+
+const cardPhrase = (card: Card): Phrase => {
+  const type: Phrase = { key: card.type === CardType.SOLAR ? 'card.SOLAR' : 'card.LUNAR' };
+  return isHiddenCard(card) ? { key: 'replay.hiddenCard', params: { type } } : { key: 'card.label', params: { type, value: card.value } };
+};
+
+const nameOf = (state: GameState, playerId: string) => state.players.find(p => p.id === playerId)?.name || playerId;
+
+// One line for an entry, given the state right after it. Also used for live
+// announcements, where `state` is a projection and hidden cards stay hidden.
+export const describeEntry = (entry: LogEntry, state: GameState, { locale, t }: I18n): string => {
+  const { action } = entry;
+  switch (action.type) {
+    case 'Deal':
+      return t('replay.deal', { clock: localizeClock(state.clock, locale).name, count: state.players.length });
+    case 'ClaimStart':
+      return t('replay.claimStart', { name: nameOf(state, action.playerId) });
+    case 'PlayCard': {
+      const card = state.clockSegments[action.segmentIndex].cards.slice(-1)[0];
+      const played: Phrase = card ? cardPhrase(card) : { key: 'replay.aCard' };
+      const params = { name: nameOf(state, action.playerId), card: played, slot: action.segmentIndex + 1 };
+      return action.faceUp
+        ? t('replay.playFaceUp', { ...params, used: state.faceUpTokensUsed, limit: getFaceUpLimit(state) })
+        : t('replay.play', params);
+    }
+    case 'ResolveStep': {
+      const result = state.resolutionResults.slice(-1)[0];
+      const verdict: Phrase = result.passed
+        ? { key: 'replay.holds', params: { slot: result.index + 1 } }
+        : { key: 'replay.breaks', params: { slot: result.index + 1, reason: rulePhrase(result) } };
+      return state.outcome ? t('replay.withOutcome', { verdict, outcome: { key: `outcome.${state.outcome}` } }) : t(verdict.key, verdict.params);
+    }
+    case 'RequestTakeBack':
+      return t(state.takeBack ? 'replay.asksTakeBack' : 'replay.takesBack', { name: nameOf(state, action.playerId) });
+    case 'VoteTakeBack': {
+      const name = nameOf(state, action.playerId);
+      if (!action.accept) return t('replay.declinesTakeBack', { name });
+      return t(state.takeBack ? 'replay.acceptsTakeBack' : 'replay.takeBackDone', { name });
+    }
+    case 'SetPresence': {
+      const name = nameOf(state, action.playerId);
+      if (!action.away) return t('replay.back', { name });
+      return t(action.standIn ? 'replay.standIn' : 'replay.lostConnection', { name });
+    }
+    default:
+      return action.type;
+  }
+};
+
+// Message clears and resets are bookkeeping, not events worth a step
+export const buildReplay = (seed: number, log: LogEntry[]): ReplayStep[] => {
+  const states = rebuildStates(seed, log);
+  return log
+    .map((entry, i) => ({ entry, state: states[i] }))
+    .filter(step => step.entry.action.type !== 'ClearMessage' && step.entry.action.type !== 'Reset');
+};
+
+const canStillWin = (state: GameState) => solvePosition({
+  hands: state.players.map(p => p.hand),
+  placed: state.clockSegments,
+  cardsPlayed: state.cardsPlayedCount,
+  nextPlayerIndex: state.phase === GamePhase.START_PLAYER_SELECTION ? undefined : state.currentPlayerIndex,
+}, state.clock, { maxSolutions: 1 }).solvable;
+
+// Steps that can change what is still reachable on the clock
+const POSITION_ACTIONS = ['Deal', 'ClaimStart', 'PlayCard', 'RequestTakeBack', 'VoteTakeBack'];
+
+// The step after which no way of playing on could have won: the play that
+// broke the clock (or the deal itself, when it was never winnable). A take-back
+// can repair the clock, so this is the last such break. -1 if there was none.
+export const findBreakingStep = (steps: ReplayStep[]): number => {
+  let breaking = -1;
+  let winnable = false;
+  steps.forEach((step, i) => {
+    if (!POSITION_ACTIONS.includes(step.entry.action.type)) return;
+    const now = canStillWin(step.state);
+    if (!now && (winnable || step.entry.action.type === 'Deal')) breaking = i;
+    winnable = now;
+  });
+  return breaking;
+};
+
+export const loadLastReplay = (): SavedReplay | null => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) return JSON.parse(saved);
+  } catch (e) {
+    console.error("Failed to load replay", e);
+  }
+  return null;
+};
+
+export const saveLastReplay = (replay: SavedReplay) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(replay));
+  } catch (e) {
+    console.error("Failed to save replay", e);
+  }
+};
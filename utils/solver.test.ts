@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { Card, CardType, ClockSegment, GamePhase, GameState, Seat } from '../types';
+import { CLOCK_DEFINITIONS, getClockDefinition } from '../constants';
+import { createLobbyState, isResolutionComplete, reduce, validateMove } from './gameEngine';
+import { pickDeal, seededDecks } from './dealing';
+import { dealCards } from './gameUtils';
+import { handsFromClock, solveDeal } from './solver';
+
+const SEATS: Seat[] = ['p1', 'p2', 'p3'].map(id => ({ id, name: id, isLocal: false }));
+
+// Plays a solver layout through the engine: each turn the current player lays
+// a card where the layout has it, backtracking over the order when a placement
+// rule (nth card) says no. Returns the resolved state, or null if no order works.
+const playLayout = (state: GameState, slotOf: Map<string, number>): GameState | null => {
+  if (state.phase !== GamePhase.PLACEMENT) {
+    let resolved = state;
+    while (!isResolutionComplete(resolved)) resolved = reduce(resolved, { type: 'ResolveStep' });
+    return resolved;
+  }
+  const player = state.players[state.currentPlayerIndex];
+  for (const card of player.hand) {
+    const action = { type: 'PlayCard' as const, playerId: player.id, cardId: card.id, segmentIndex: slotOf.get(card.id)!, faceUp: false };
+    if (!validateMove(state, action).passed) continue;
+    const result = playLayout(reduce(state, action), slotOf);
+    if (result) return result;
+  }
+  return null;
+};
+
+const slotsOf = (layout: ClockSegment[]) =>
+  new Map(layout.flatMap(seg => seg.cards.map(card => [card.id, seg.index] as [string, number])));
+
+describe('solveDeal', () => {
+  CLOCK_DEFINITIONS.forEach(clock => {
+    it(`finds a layout for ${clock.id} that the engine accepts and wins`, () => {
+      const seed = 2024;
+      const pick = pickDeal(clock, SEATS.length, 'SOLVABLE', seededDecks(seed));
+      let state = reduce(createLobbyState(), {
+        type: 'Deal', matchId: 'm1', clock, seats: SEATS, seed, dealMode: 'SOLVABLE', shuffle: pick.shuffle,
+      });
+      const result = solveDeal(state.players.map(p => p.hand), clock, { maxSolutions: 1 });
+      expect(result.solvable).toBe(true);
+
+      state = reduce(state, { type: 'ClaimStart', playerId: SEATS[result.startPlayerIndex!].id });
+      const end = playLayout(state, slotsOf(result.example!));
+      expect(end?.outcome).toBe('VICTORY');
+      // And the finished clock hands back exactly the dealt hands
+      expect(handsFromClock(end!.clockSegments, SEATS.map(s => s.id)).map(h => h.length)).toEqual(state.players.map(p => p.hand.length));
+    });
+  });
+
+  it('proves a deal unsolvable', () => {
+    // Clock I needs a Lunar card in slot 1; deal only Solar ones
+    const solar: Card[] = Array.from({ length: 12 }, (_, i) => ({ id: `s-${i + 1}`, type: CardType.SOLAR, value: i + 1, isFaceUp: false }));
+    const hands = [solar.slice(0, 4), solar.slice(4, 8), solar.slice(8)];
+    expect(solveDeal(hands, getClockDefinition('c1-1'))).toEqual({
+      solvable: false, solutionCount: 0, exhaustive: true, example: null, startPlayerIndex: null,
+    });
+  });
+
+  it('stops at the solution cap and says the count is not exhaustive', () => {
+    const clock = getClockDefinition('c1-2');
+    const deck = pickDeal(clock, 3, 'SOLVABLE', seededDecks(7)).deck;
+    const hands = dealCards(deck, 3);
+    const full = solveDeal(hands, clock);
+    expect(full.exhaustive).toBe(true);
+    expect(full.solutionCount).toBeGreaterThan(3);
+
+    const capped = solveDeal(hands, clock, { maxSolutions: 3 });
+    expect(capped).toMatchObject({ solvable: true, solutionCount: 3, exhaustive: false });
+  });
+
+  it('gives up at the node budget without claiming the deal is lost', () => {
+    const clock = getClockDefinition('c1-2');
+    const deck = pickDeal(clock, 3, 'SOLVABLE', seededDecks(7)).deck;
+    const hands = dealCards(deck, 3);
+    expect(solveDeal(hands, clock, { maxNodes: 3 })).toMatchObject({ solvable: false, solutionCount: 0, exhaustive: false });
+  });
+});
@@ -0,0 +1,213 @@
+import { Card, ClockDefinition, ClockSegment, SolverResult } from '../types';
+import { sumCards, TOTAL_SEGMENTS } from '../constants';
+import { checkGlobalRules, checkSegmentRule } from './clockRules';
+
+// Exhaustive search over every way to lay the remaining cards out on the clock.
+//
+// Slots are filled in resolution order (from the hand) with bitmask subsets of
+// the cards still unplaced, so the ascending-sum rule prunes most branches
+// early. Only `nthCardToSlot` depends on the order of play; it is checked per
+// finished layout against the fixed turn order (for every possible starter when
+// nobody has played yet). Capacity and type restrictions only depend on what
+// ends up in a slot.
+
+export interface SolveOptions {
+  // Stop counting after this many solutions (the result is then not exhaustive)
+  maxSolutions?: number;
+  // Stop after visiting this many search nodes; keeps callers like the bot responsive
+  maxNodes?: number;
+}
+
+// A game in progress: cards already on the clock plus every player's remaining hand
+export interface SolverPosition {
+  hands: Card[][];
+  placed?: ClockSegment[];
+  cardsPlayed?: number;
+  nextPlayerIndex?: number; // Unset before the start is claimed: anyone may start
+}
+
+const popcount = (mask: number) => {
+  let count = 0;
+  while (mask) { mask &= mask - 1; count++; }
+  return count;
+};
+
+export const solvePosition = (position: SolverPosition, definition: ClockDefinition, options: SolveOptions = {}): SolverResult => {
+  const maxSolutions = options.maxSolutions ?? Infinity;
+  const maxNodes = options.maxNodes ?? Infinity;
+  const { hands } = position;
+  const cardsPlayed = position.cardsPlayed ?? 0;
+  const placed = Array.from({ length: TOTAL_SEGMENTS }, (_, i) => position.placed?.[i]?.cards || []);
+  const cards = hands.flat();
+  const owners = hands.flatMap((hand, p) => hand.map(() => p));
+  const n = cards.length;
+  const full = (1 << n) - 1;
+  const playerCount = hands.length;
+
+  const unsolvable = (): SolverResult =>
+    ({ solvable: false, solutionCount: 0, exhaustive: true, example: null, startPlayerIndex: null });
+
+  const baseSum = placed.map(sumCards);
+  const emptySlots = placed.filter(slot => slot.length === 0).length;
+  if (n < emptySlots) return unsolvable();
+
+  // Per-mask sums, built incrementally from the lowest set bit
+  const maskSum = new Int32Array(1 << n);
+  for (let mask = 1; mask <= full; mask++) {
+    const low = mask & -mask;
+    maskSum[mask] = maskSum[mask ^ low] + cards[31 - Math.clz32(low)].value;
+  }
+  const cardsOf = (mask: number) => cards.filter((_, i) => mask & (1 << i));
+  const slotTotal = (segIdx: number, mask: number) => baseSum[segIdx] + maskSum[mask];
+
+  const playerMasks = Array.from({ length: playerCount }, (_, p) =>
+    owners.reduce((acc, owner, i) => (owner === p ? acc | (1 << i) : acc), 0)
+  );
+
+  // nth-card rules still ahead of us: one target per turn, or the clock cannot be satisfied at all
+  const nthTargets = new Map<number, number>();
+  for (const rule of definition.placementRules || []) {
+    if (rule.type !== 'nthCardToSlot') continue;
+    if (rule.nth <= cardsPlayed || rule.nth > cardsPlayed + n) continue;
+    const existing = nthTargets.get(rule.nth);
+    if (existing !== undefined && existing !== rule.segment) return unsolvable();
+    nthTargets.set(rule.nth, rule.segment);
+  }
+
+  // Everything that only looks at one slot's final contents, cached per (slot, mask)
+  const localCache = new Int8Array(TOTAL_SEGMENTS << n);
+  const fitsSlot = (segIdx: number, mask: number) => {
+    const key = (segIdx << n) | mask;
+    if (localCache[key]) return localCache[key] === 1;
+
+    const slotCards = [...placed[segIdx], ...cardsOf(mask)];
+    let ok = slotCards.length > 0;
+    if (ok && definition.maxTotal && slotTotal(segIdx, mask) > definition.maxTotal) ok = false;
+
+    for (const rule of definition.placementRules || []) {
+      if (!ok) break;
+      if (rule.type === 'slotAccepts' && rule.segment === segIdx) {
+        ok = slotCards.every(c => c.type === rule.cardType);
+      } else if (rule.type === 'slotCapacity' && rule.segment === segIdx) {
+        const counted = rule.cardType ? slotCards.filter(c => c.type === rule.cardType) : slotCards;
+        ok = counted.length <= rule.max;
+      }
+    }
+
+    const segment: ClockSegment = { index: segIdx, cards: slotCards };
+    for (const rule of definition.segmentRules?.[segIdx] || []) {
+      if (!ok) break;
+      if (rule.type === 'sumEquals') continue; // needs the other slot, checked per layout
+      ok = checkSegmentRule(rule, segment, []).passed;
+    }
+
+    localCache[key] = ok ? 1 : 2;
+    return ok;
+  };
+
+  const order = Array.from({ length: TOTAL_SEGMENTS }, (_, i) => (definition.startingSegmentIndex + i) % TOTAL_SEGMENTS);
+  const laterBases = order.map((_, pos) => order.slice(pos + 1).map(l => baseSum[l]));
+  const emptyLater = order.map((_, pos) => order.slice(pos + 1).filter(l => placed[l].length === 0).length);
+  const assigned = new Array<number>(TOTAL_SEGMENTS).fill(0);
+  const hasGlobalRules = (definition.globalRules || []).length > 0;
+
+  const buildSegments = (): ClockSegment[] =>
+    assigned.map((mask, index) => ({ index, cards: [...placed[index], ...cardsOf(mask)] }));
+
+  // For each possible starter: how many cards each player must have in each forced slot
+  const starters = position.nextPlayerIndex !== undefined
+    ? [position.nextPlayerIndex]
+    : Array.from({ length: playerCount }, (_, p) => p);
+  const starterNeeds = starters.map(start => {
+    const need = new Map<number, { player: number; segIdx: number; count: number }>();
+    nthTargets.forEach((segIdx, nth) => {
+      const player = (start + nth - 1 - cardsPlayed) % playerCount;
+      const key = player * TOTAL_SEGMENTS + segIdx;
+      const entry = need.get(key) || { player, segIdx, count: 0 };
+      entry.count++;
+      need.set(key, entry);
+    });
+    return Array.from(need.values());
+  });
+
+  // Returns the first player who can start so every nth-card rule is met, or -1
+  const findStarter = () => {
+    for (let i = 0; i < starters.length; i++) {
+      if (starterNeeds[i].every(({ player, segIdx, count }) =>
+        popcount(assigned[segIdx] & playerMasks[player]) >= count
+      )) return starters[i];
+    }
+    return -1;
+  };
+
+  const layoutPasses = () => {
+    for (let segIdx = 0; segIdx < TOTAL_SEGMENTS; segIdx++) {
+      for (const rule of definition.segmentRules?.[segIdx] || []) {
+        if (rule.type === 'sumEquals' && slotTotal(segIdx, assigned[segIdx]) !== slotTotal(rule.segment, assigned[rule.segment])) return false;
+      }
+    }
+    return !hasGlobalRules || checkGlobalRules(buildSegments(), definition).length === 0;
+  };
+
+  let solutionCount = 0;
+  let nodes = 0;
+  let example: ClockSegment[] | null = null;
+  let startPlayerIndex: number | null = null;
+
+  // Returns true when the search has to stop early (solution cap or node budget)
+  const search = (pos: number, remaining: number, prevSum: number): boolean => {
+    if (++nodes > maxNodes) return true;
+    const segIdx = order[pos];
+    const bases = laterBases[pos];
+
+    if (bases.length === 0) {
+      if (slotTotal(segIdx, remaining) < prevSum || !fitsSlot(segIdx, remaining)) return false;
+      assigned[segIdx] = remaining;
+      if (!layoutPasses()) return false;
+      const starter = findStarter();
+      if (starter === -1) return false;
+
+      solutionCount++;
+      if (!example) { example = buildSegments(); startPlayerIndex = starter; }
+      return solutionCount >= maxSolutions;
+    }
+
+    const remainingSum = maskSum[remaining];
+    const remainingCount = popcount(remaining);
+    // Slots that already hold cards may take no new ones, so the empty subset counts too
+    for (let sub = remaining; ; sub = (sub - 1) & remaining) {
+      const total = slotTotal(segIdx, sub);
+      // Every later slot needs at least this sum and, if still empty, at least one card
+      let topUp = 0;
+      for (let i = 0; i < bases.length; i++) if (total > bases[i]) topUp += total - bases[i];
+      if (total >= prevSum && remainingSum - maskSum[sub] >= topUp
+        && remainingCount - popcount(sub) >= emptyLater[pos] && fitsSlot(segIdx, sub)) {
+        assigned[segIdx] = sub;
+        if (search(pos + 1, remaining & ~sub, total)) return true;
+      }
+      if (sub === 0) break;
+    }
+    return false;
+  };
+
+  const stopped = search(0, full, 0);
+
+  return {
+    solvable: solutionCount > 0,
+    solutionCount,
+    exhaustive: !stopped,
+    example,
+    startPlayerIndex,
+  };
+};
+
+export const solveDeal = (hands: Card[][], definition: ClockDefinition, options: SolveOptions = {}): SolverResult =>
+  solvePosition({ hands }, definition, options);
+
+// Rebuilds the dealt hands from a finished clock (every played card keeps its ownerId)
+export const handsFromClock = (segments: ClockSegment[], playerIds: string[]): Card[][] => {
+  const played = segments.flatMap(seg => seg.cards);
+  return playerIds.map(id =>
+    played.filter(c => c.ownerId === id).map(c => ({ ...c, isFaceUp: false }))
+  );
+};
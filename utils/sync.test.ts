@@ -0,0 +1,311 @@
+import { describe, expect, it } from 'vitest';
+import { GameAction, GamePhase, GameState, Seat } from '../types';
+import { getClockDefinition } from '../constants';
+import { isHiddenCard, projectState, rebuildState } from './projection';
+import { RosterMember, decodeClientMessage, decodeHostMessage, electHost, sendMessage } from './protocol';
+import { SeedShare, combineShares, splitSeed } from './escrow';
+import { createLoopbackHub, createLoopbackTransport } from './loopbackTransport';
+import type { Transport, TransportConnection } from './transport';
+import { createMatchSync } from './sync';
+
+// A host and clients wired to the sync module the way App.tsx wires them, over the in-memory transport
+
+// Loopback delivery hops through a few timers per message
+const settle = async () => {
+  for (let i = 0; i < 20; i++) await new Promise(resolve => setTimeout(resolve, 0));
+};
+
+const opened = (transport: Transport) => new Promise<string>(resolve => transport.on('open', resolve));
+
+const createHost = (transport: Transport) => {
+  const connections: { [playerId: string]: TransportConnection } = {};
+  // Recipients whose next patch gets lost on the way
+  const dropNext = new Set<string>();
+  const lossy = (pid: string, connection: TransportConnection): TransportConnection => ({
+    ...connection,
+    get open() { return connection.open; },
+    send: data => { if (!dropNext.delete(pid)) connection.send(data); },
+  });
+  const sync = createMatchSync({ connections: () => connections, onState: () => {} });
+
+  transport.on('connection', connection => {
+    let playerId: string | null = null;
+    connection.on('data', raw => {
+      const { message } = decodeClientMessage(raw);
+      if (message?.type === 'JOIN') {
+        playerId = message.playerId;
+        connections[playerId] = lossy(playerId, connection);
+        sync.sendSnapshot(connection, playerId);
+      } else if (message?.type === 'RESYNC' && playerId) {
+        sync.sendSnapshot(connection, playerId);
+      }
+    });
+  });
+
+  return { sync, dropNext };
+};
+
+const createClient = (transport: Transport, playerId: string) => {
+  const sync = createMatchSync({ connections: () => ({}), onState: () => {} });
+  let resyncs = 0;
+
+  const join = (hostId: string) => {
+    const connection = transport.connect(hostId);
+    connection.on('open', () => sendMessage(connection, { type: 'JOIN', playerId, name: playerId }));
+    connection.on('data', raw => {
+      const { message } = decodeHostMessage(raw);
+      if (message?.type === 'SNAPSHOT') sync.applySnapshot(message);
+      else if (message?.type === 'PATCH') sync.applyPatch(message, connection);
+    });
+    // Count the snapshot requests on their way out
+    const send = connection.send.bind(connection);
+    connection.send = data => {
+      if (decodeClientMessage(data).message?.type === 'RESYNC') resyncs++;
+      send(data);
+    };
+  };
+
+  return { sync, join, get resyncs() { return resyncs; } };
+};
+
+const SEATS: Seat[] = [
+  { id: 'p1', name: 'Ada', isLocal: true },
+  { id: 'p2', name: 'Ben', isLocal: false },
+  { id: 'p3', name: 'Cleo', isLocal: false },
+];
+
+const setUp = async () => {
+  const hub = createLoopbackHub();
+  const hostTransport = createLoopbackTransport('host', hub);
+  const host = createHost(hostTransport);
+  const transports = ['p2', 'p3'].map(id => createLoopbackTransport(`peer-${id}`, hub));
+  await Promise.all([hostTransport, ...transports].map(opened));
+  const [ben, cleo] = transports.map((transport, i) => createClient(transport, ['p2', 'p3'][i]));
+  ben.join('host');
+  cleo.join('host');
+  await settle();
+
+  host.sync.dispatch({ type: 'Deal', matchId: 'm1', clock: getClockDefinition('c1-2'), seats: SEATS, seed: 99, dealMode: 'RANDOM' });
+  host.sync.dispatch({ type: 'ClaimStart', playerId: 'p1' });
+  await settle();
+  return { host, ben, cleo };
+};
+
+// The current player's first card, into the next slot round the clock
+const playFirstCard = (state: GameState): GameAction => {
+  const player = state.players[state.currentPlayerIndex];
+  return { type: 'PlayCard', playerId: player.id, cardId: player.hand[0].id, segmentIndex: state.cardsPlayedCount, faceUp: false };
+};
+
+describe('match sync over loopback', () => {
+  it('gives every client its own projection of the host state', async () => {
+    const { host, ben, cleo } = await setUp();
+    expect(ben.sync.state.phase).toBe(GamePhase.PLACEMENT);
+    expect(ben.sync.state).toEqual(projectState(host.sync.state, 'p2'));
+    expect(cleo.sync.state).toEqual(projectState(host.sync.state, 'p3'));
+
+    // Own hand in full, everyone else's as card backs, and no seed before the end
+    const [ada, benSeat] = ben.sync.state.players;
+    expect(benSeat.hand).toEqual(host.sync.state.players[1].hand);
+    expect(ada.hand.every(isHiddenCard)).toBe(true);
+    expect(ada.hand.map(c => c.type)).toEqual(host.sync.state.players[0].hand.map(c => c.type));
+    expect(ben.sync.state.seed).toBe(0);
+    expect(ben.sync.log).toEqual(host.sync.log);
+  });
+
+  it('keeps clients in step while cards are played', async () => {
+    const { host, ben, cleo } = await setUp();
+    for (let i = 0; i < 5; i++) host.sync.dispatch(playFirstCard(host.sync.state));
+    await settle();
+
+    expect(ben.sync.seq).toBe(7);
+    expect(ben.sync.state).toEqual(projectState(host.sync.state, 'p2'));
+    expect(cleo.sync.state).toEqual(projectState(host.sync.state, 'p3'));
+    // The public log plus the seed rebuilds exactly what the host holds
+    expect(rebuildState(99, cleo.sync.log)).toEqual(host.sync.state);
+  });
+
+  it('sends nothing for an action the engine ignores', async () => {
+    const { host, ben } = await setUp();
+    const before = host.sync.state;
+    expect(host.sync.dispatch({ type: 'ClaimStart', playerId: 'p2' })).toBeNull();
+    await settle();
+    expect(host.sync.state).toBe(before);
+    expect(host.sync.seq).toBe(2);
+    expect(ben.sync.seq).toBe(2);
+  });
+
+  it('resyncs a client that missed a patch', async () => {
+    const { host, ben, cleo } = await setUp();
+    host.dropNext.add('p2');
+    host.sync.dispatch(playFirstCard(host.sync.state));
+    await settle();
+    expect(ben.sync.seq).toBe(2);
+    expect(cleo.sync.seq).toBe(3);
+
+    // The next patch shows the gap; Ben asks for a snapshot instead of applying it
+    host.sync.dispatch(playFirstCard(host.sync.state));
+    await settle();
+    expect(ben.resyncs).toBe(1);
+    expect(ben.sync.seq).toBe(4);
+    expect(ben.sync.state).toEqual(projectState(host.sync.state, 'p2'));
+    expect(ben.sync.log).toEqual(host.sync.log);
+
+    // And it carries on from there with plain patches
+    host.sync.dispatch(playFirstCard(host.sync.state));
+    await settle();
+    expect(ben.resyncs).toBe(1);
+    expect(ben.sync.state).toEqual(projectState(host.sync.state, 'p2'));
+  });
+
+  it('asks for one snapshot however many patches arrive before it', async () => {
+    const { host, ben } = await setUp();
+    host.dropNext.add('p2');
+    for (let i = 0; i < 4; i++) host.sync.dispatch(playFirstCard(host.sync.state));
+    await settle();
+    expect(ben.resyncs).toBe(1);
+    expect(ben.sync.seq).toBe(host.sync.seq);
+    expect(ben.sync.state).toEqual(projectState(host.sync.state, 'p2'));
+  });
+
+  it('empties the log on Reset, for the host and every client', async () => {
+    const { host, ben } = await setUp();
+    host.sync.dispatch({ type: 'Reset' });
+    await settle();
+    expect(host.sync.log).toEqual([]);
+    expect(ben.sync.log).toEqual([]);
+    expect(ben.sync.state.phase).toBe(GamePhase.LOBBY);
+    expect(ben.sync.state).toEqual(projectState(host.sync.state, 'p2'));
+  });
+});
+
+// --- Host migration ---
+
+// A seat that can be a client or take over as host, with the escrow and
+// recovery steps of App.tsx around the sync module
+const createPeer = (transport: Transport, playerId: string) => {
+  const connections: { [playerId: string]: TransportConnection } = {};
+  const sync = createMatchSync({ connections: () => connections, onState: () => {} });
+  let escrow: SeedShare | null = null;
+  let recovery: SeedShare[] | null = null;
+
+  const tryRecover = () => {
+    const seed = combineShares(recovery || []);
+    if (seed === null) return;
+    recovery = null;
+    sync.replace(rebuildState(seed, sync.log));
+    Object.entries(connections).forEach(([pid, conn]) => sync.sendSnapshot(conn, pid));
+  };
+
+  transport.on('connection', connection => {
+    let senderId: string | null = null;
+    connection.on('data', raw => {
+      const { message } = decodeClientMessage(raw);
+      if (message?.type === 'JOIN') {
+        senderId = message.playerId;
+        connections[senderId] = connection;
+        if (recovery) {
+          if (message.escrow) recovery = [...recovery, message.escrow];
+          tryRecover();
+        } else {
+          sync.sendSnapshot(connection, senderId);
+        }
+      } else if (message?.type === 'RESYNC' && senderId && !recovery) {
+        sync.sendSnapshot(connection, senderId);
+      }
+    });
+  });
+
+  const join = (hostId: string) => {
+    const connection = transport.connect(hostId);
+    connection.on('open', () => sendMessage(connection, { type: 'JOIN', playerId, name: playerId, escrow: escrow ?? undefined }));
+    connection.on('data', raw => {
+      const { message } = decodeHostMessage(raw);
+      if (message?.type === 'SNAPSHOT') sync.applySnapshot(message);
+      else if (message?.type === 'PATCH') sync.applyPatch(message, connection);
+      else if (message?.type === 'ESCROW') escrow = message.share;
+    });
+  };
+
+  // Host: re-split the seed over the seated clients connected now
+  const distributeEscrow = () => {
+    const holders = Object.keys(connections).filter(pid => sync.state.players.some(p => p.id === pid));
+    const shares = splitSeed(sync.state.matchId, sync.state.seed, holders.length);
+    holders.forEach((pid, i) => sendMessage(connections[pid], { type: 'ESCROW', share: shares[i] }));
+  };
+
+  // Client: the host is gone for good; everyone elects the same successor from the roster
+  const migrate = (roster: RosterMember[]) => {
+    const successor = electHost(roster.filter(m => sync.state.players.some(p => p.id === m.playerId)))!;
+    if (successor.playerId !== playerId) {
+      join(successor.peerId);
+      return;
+    }
+    recovery = [escrow!];
+    tryRecover();
+  };
+
+  return {
+    sync, join, distributeEscrow, migrate,
+    get recovering() { return recovery !== null; },
+    get escrow() { return escrow; },
+  };
+};
+
+const setUpTable = async (clientIds: string[]) => {
+  const hub = createLoopbackHub();
+  const hostTransport = createLoopbackTransport('peer-p1', hub);
+  const transports = clientIds.map(id => createLoopbackTransport(`peer-${id}`, hub));
+  await Promise.all([hostTransport, ...transports].map(opened));
+  const host = createPeer(hostTransport, 'p1');
+  const clients = transports.map((transport, i) => createPeer(transport, clientIds[i]));
+  clients.forEach(client => client.join('peer-p1'));
+  await settle();
+
+  const seats: Seat[] = ['p1', ...clientIds].map(id => ({ id, name: id, isLocal: id === 'p1' }));
+  while (seats.length < 3) seats.push({ id: `bot-${seats.length}`, name: 'Bot', isLocal: false, botLevel: 'NORMAL' });
+  host.sync.dispatch({ type: 'Deal', matchId: 'm1', clock: getClockDefinition('c1-2'), seats, seed: 2024, dealMode: 'RANDOM' });
+  host.sync.dispatch({ type: 'ClaimStart', playerId: 'p1' });
+  for (let i = 0; i < 3; i++) host.sync.dispatch(playFirstCard(host.sync.state));
+  host.distributeEscrow();
+  await settle();
+
+  const roster: RosterMember[] = clientIds.map(id => ({ playerId: id, peerId: `peer-${id}`, name: id, role: 'PLAYER' }));
+  // The host's tab closes; what it held is what the table has to rebuild
+  const before = host.sync.state;
+  hostTransport.destroy();
+  await settle();
+  return { clients, roster, before };
+};
+
+describe('host migration over loopback', () => {
+  it('rebuilds the match when one of three holders never comes back', async () => {
+    const { clients: [ben, cleo], roster, before } = await setUpTable(['p2', 'p3', 'p4']);
+    expect(ben.escrow?.threshold).toBe(2);
+
+    // Dana (p4) is gone too; Ben (lowest id) takes over and Cleo rejoins him
+    ben.migrate(roster);
+    expect(ben.recovering).toBe(true);
+    cleo.migrate(roster);
+    await settle();
+
+    expect(ben.recovering).toBe(false);
+    expect(ben.sync.state).toEqual(before);
+    expect(ben.sync.seq).toBe(5);
+    expect(cleo.sync.state).toEqual(projectState(before, 'p3'));
+
+    // And play carries on from the same sequence number
+    ben.sync.dispatch(playFirstCard(ben.sync.state));
+    await settle();
+    expect(cleo.sync.seq).toBe(6);
+    expect(cleo.sync.state).toEqual(projectState(ben.sync.state, 'p3'));
+  });
+
+  it('lets the only client of a small table take over alone', async () => {
+    const { clients: [ben], roster, before } = await setUpTable(['p2']);
+    expect(ben.escrow?.threshold).toBe(1);
+    ben.migrate(roster);
+    expect(ben.recovering).toBe(false);
+    expect(ben.sync.state).toEqual(before);
+  });
+});
@@ -0,0 +1,122 @@
+import { GameAction, GameState } from '../types';
+import { createLobbyState, reduce } from './gameEngine';
+import { LogEntry, diffState, projectState, toPublicAction } from './projection';
+import { HostMessage, checkSequence, sendMessage } from './protocol';
+import type { TransportConnection } from './transport';
+
+// Keeps every copy of a match in step. The host runs actions through the engine
+// and sends each client a PATCH of its own projected view; a client applies
+// patches strictly in order and asks for a SNAPSHOT when it sees a gap. One
+// object covers both roles, because a client that takes over as host carries
+// on from the state, log and sequence number it already has.
+
+export interface MatchSyncOptions {
+  // Host: the clients patches go to, by player id
+  connections: () => { [playerId: string]: TransportConnection };
+  // Called with every new state, sent or received
+  onState: (state: GameState) => void;
+}
+
+export type MatchSync = ReturnType<typeof createMatchSync>;
+
+export const createMatchSync = ({ connections, onState }: MatchSyncOptions) => {
+  let state = createLobbyState();
+  // Host: sequence number of the last action sent. Client: of the last action applied.
+  let seq = 0;
+  // Public action log of the current match
+  let log: LogEntry[] = [];
+  // Host: the last view sent to each client
+  let views: { [playerId: string]: GameState } = {};
+  // Client: a snapshot was asked for and has not arrived yet
+  let resyncPending = false;
+
+  const setState = (next: GameState) => {
+    state = next;
+    onState(next);
+  };
+
+  // Nothing of the last match may stay in the log once a new one is dealt or the table resets
+  const record = (entry: LogEntry) => {
+    if (entry.action.type === 'Deal') log = [entry];
+    else if (entry.action.type === 'Reset') log = [];
+    else log = [...log, entry];
+  };
+
+  // Each client gets only what changed in its own view (`full` resends the whole view)
+  const broadcastPatch = (entry: LogEntry, full: boolean) => {
+    Object.entries(connections()).forEach(([pid, conn]) => {
+      if (!conn || !conn.open) return;
+      const view = projectState(state, pid);
+      const previous = views[pid];
+      const changes = full || !previous ? view : diffState(previous, view);
+      views[pid] = view;
+      sendMessage(conn, { type: 'PATCH', seq, entry, changes });
+    });
+  };
+
+  return {
+    get state() { return state; },
+    get seq() { return seq; },
+    get log() { return log; },
+
+    // Takes a state (and log) without sending anything: a restored save, a rebuilt match, a client leaving a result
+    replace: (next: GameState, nextLog: LogEntry[] = log) => {
+      log = nextLog;
+      setState(next);
+    },
+
+    // --- Host ---
+
+    // Runs an action and publishes the result; returns its log entry, or null if nothing changed
+    dispatch: (action: GameAction): LogEntry | null => {
+      const next = reduce(state, action);
+      if (next === state) return null;
+      const entry: LogEntry = { at: Date.now(), action: toPublicAction(state, action) };
+      record(entry);
+      seq++;
+      setState(next);
+      broadcastPatch(entry, action.type === 'Deal' || action.type === 'Reset');
+      return entry;
+    },
+
+    // The whole view for one client: on joining, on RESYNC, after a rebuild
+    sendSnapshot: (connection: TransportConnection, pid: string) => {
+      const view = projectState(state, pid);
+      views[pid] = view;
+      sendMessage(connection, { type: 'SNAPSHOT', seq, state: view, log });
+    },
+
+    // A client left (or, without an id, everyone did); the next patch it gets is a full view
+    forget: (pid?: string) => {
+      if (pid) delete views[pid];
+      else views = {};
+    },
+
+    // --- Client ---
+
+    applySnapshot: (message: Extract<HostMessage, { type: 'SNAPSHOT' }>) => {
+      seq = message.seq;
+      resyncPending = false;
+      log = message.log;
+      setState({ ...createLobbyState(), ...message.state });
+    },
+
+    // Returns whether the patch was applied; anything missing is fetched as a snapshot instead
+    applyPatch: (message: Extract<HostMessage, { type: 'PATCH' }>, connection: TransportConnection) => {
+      const check = checkSequence(seq, message.seq);
+      if (check === 'STALE') return false;
+      if (check === 'GAP') {
+        if (!resyncPending) {
+          console.warn(`Missed updates (have #${seq}, got #${message.seq}). Requesting resync.`);
+          resyncPending = true;
+          sendMessage(connection, { type: 'RESYNC' });
+        }
+        return false;
+      }
+      seq = message.seq;
+      record(message.entry);
+      setState({ ...state, ...message.changes });
+      return true;
+    },
+  };
+};
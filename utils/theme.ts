@@ -0,0 +1,120 @@
+import { createContext, useContext } from 'react';
+import { CardType } from '../types';
+
+// Card and slot palettes. Colour is never the only cue: Solar and Lunar cards
+// also differ by icon (backs included) and pip shape, and passed and failed
+// slots by mark and border style, so every palette only has to be readable.
+
+export type ThemeId = 'CLASSIC' | 'COLORBLIND' | 'HIGH_CONTRAST';
+
+export interface CardPalette {
+  front: string; // Background, border and text of a revealed card
+  icon: string;
+  back: string; // Background and border of a hidden card
+  backDisc: string;
+  pip: string; // Hand pips in the header
+}
+
+export interface Theme {
+  id: ThemeId; // Named in the message catalogue (theme.<id>)
+  solar: CardPalette;
+  lunar: CardPalette;
+  pass: string; // Slot that holds
+  fail: string;
+  legal: string; // Slot the held card may go to
+  illegal: string;
+  passMark: string;
+  failMark: string;
+  failNote: string;
+}
+
+export const THEMES: Record<ThemeId, Theme> = {
+  CLASSIC: {
+    id: 'CLASSIC',
+    solar: {
+      front: 'bg-yellow-100 border-yellow-400 text-yellow-900',
+      icon: 'text-orange-500',
+      back: 'bg-amber-600 border-amber-300',
+      backDisc: 'border-amber-200 bg-amber-500',
+      pip: 'bg-gold',
+    },
+    lunar: {
+      front: 'bg-slate-900 border-cyan-300 text-cyan-50',
+      icon: 'text-cyan-400',
+      back: 'bg-indigo-900 border-indigo-400',
+      backDisc: 'border-indigo-300 bg-indigo-700',
+      pip: 'bg-indigo-500',
+    },
+    pass: 'border-green-500 bg-green-900 bg-opacity-20',
+    fail: 'border-red-500 bg-red-900 bg-opacity-20',
+    legal: 'border-green-500 bg-green-900 bg-opacity-10',
+    illegal: 'border-red-900 bg-red-900 bg-opacity-10',
+    passMark: 'text-green-400',
+    failMark: 'text-red-500',
+    failNote: 'bg-red-900 border-red-500 text-white',
+  },
+  // Blue against orange (Okabe-Ito), which survives the common colour-vision deficiencies
+  COLORBLIND: {
+    id: 'COLORBLIND',
+    solar: {
+      front: 'bg-orange-100 border-orange-500 text-orange-950',
+      icon: 'text-orange-600',
+      back: 'bg-orange-500 border-orange-200',
+      backDisc: 'border-orange-100 bg-orange-400',
+      pip: 'bg-orange-400',
+    },
+    lunar: {
+      front: 'bg-sky-950 border-sky-400 text-sky-50',
+      icon: 'text-sky-300',
+      back: 'bg-sky-800 border-sky-300',
+      backDisc: 'border-sky-200 bg-sky-600',
+      pip: 'bg-sky-500',
+    },
+    pass: 'border-sky-400 bg-sky-900 bg-opacity-30',
+    fail: 'border-orange-500 bg-orange-900 bg-opacity-30',
+    legal: 'border-sky-400 bg-sky-900 bg-opacity-20',
+    illegal: 'border-orange-800 bg-orange-900 bg-opacity-10',
+    passMark: 'text-sky-300',
+    failMark: 'text-orange-400',
+    failNote: 'bg-orange-900 border-orange-400 text-white',
+  },
+  HIGH_CONTRAST: {
+    id: 'HIGH_CONTRAST',
+    solar: {
+      front: 'bg-white border-black text-black',
+      icon: 'text-black',
+      back: 'bg-white border-black',
+      backDisc: 'border-black bg-white',
+      pip: 'bg-white',
+    },
+    lunar: {
+      front: 'bg-black border-white text-white',
+      icon: 'text-white',
+      back: 'bg-black border-white',
+      backDisc: 'border-white bg-black',
+      pip: 'bg-black border-white',
+    },
+    pass: 'border-white bg-black',
+    fail: 'border-yellow-300 bg-black',
+    legal: 'border-white bg-white bg-opacity-10',
+    illegal: 'border-gray-700 bg-black',
+    passMark: 'text-white',
+    failMark: 'text-yellow-300',
+    failNote: 'bg-black border-yellow-300 text-yellow-300',
+  },
+};
+
+export const cardPalette = (theme: Theme, type: CardType) => (type === CardType.SOLAR ? theme.solar : theme.lunar);
+
+export const ThemeContext = createContext<Theme>(THEMES.CLASSIC);
+
+export const useTheme = () => useContext(ThemeContext);
+
+const STORAGE_KEY = 'tt_theme';
+
+export const loadThemeId = (): ThemeId => {
+  const saved = localStorage.getItem(STORAGE_KEY) as ThemeId | null;
+  return saved && saved in THEMES ? saved : 'CLASSIC';
+};
+
+export const saveThemeId = (id: ThemeId) => localStorage.setItem(STORAGE_KEY, id);
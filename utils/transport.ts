@@ -0,0 +1,76 @@
+// What the lobby and game code talk to. The shape follows PeerJS (which came
+// first): a transport registers under an id, accepts incoming connections and
+// opens outgoing ones; connections carry structured-cloneable data.
+
+export interface TransportError {
+  // 'unavailable-id' | 'peer-unavailable' | 'network' | 'disconnected' or a PeerJS error type
+  type: string;
+  message?: string;
+}
+
+export interface TransportConnection {
+  readonly peer: string; // Id of the other end
+  readonly open: boolean;
+  send(data: unknown): void;
+  close(): void;
+  on(event: 'open' | 'close', handler: () => void): void;
+  on(event: 'data', handler: (data: unknown) => void): void;
+  on(event: 'error', handler: (err: TransportError) => void): void;
+}
+
+export interface Transport {
+  on(event: 'open', handler: (id: string) => void): void;
+  on(event: 'connection', handler: (connection: TransportConnection) => void): void;
+  on(event: 'error', handler: (err: TransportError) => void): void;
+  connect(remoteId: string): TransportConnection;
+  destroy(): void;
+}
+
+type Handler = (...args: any[]) => void;
+
+// Minimal event emitter for the transports that do not bring their own
+export const createEmitter = () => {
+  const handlers: { [event: string]: Handler[] } = {};
+  return {
+    on: (event: string, handler: Handler) => {
+      (handlers[event] = handlers[event] || []).push(handler);
+    },
+    emit: (event: string, ...args: any[]) => {
+      (handlers[event] || []).forEach(h => h(...args));
+    },
+  };
+};
+
+export type Emitter = ReturnType<typeof createEmitter>;
+
+// One end of a connection whose bytes are moved by someone else (the relay
+// socket or the in-memory hub). The owner flips it open/closed and feeds it data.
+export interface ConnectionEnd {
+  connection: TransportConnection;
+  events: Emitter;
+  setOpen: (open: boolean) => void;
+}
+
+export const createConnectionEnd = (
+  peer: string,
+  send: (data: unknown) => void,
+  close: () => void
+): ConnectionEnd => {
+  const events = createEmitter();
+  let open = false;
+  return {
+    connection: {
+      peer,
+      get open() { return open; },
+      send: (data: unknown) => { if (open) send(data); },
+      close: () => { if (open) close(); },
+      on: events.on,
+    },
+    events,
+    setOpen: (value: boolean) => {
+      if (value === open) return;
+      open = value;
+      events.emit(value ? 'open' : 'close');
+    },
+  };
+};